@@ -0,0 +1,581 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  badRowCountSelects,
+  diffScans,
+  estimateFromSample,
+  formatReport,
+  matchesGrantSchema,
+  parseColumnDefinition,
+  parseGrant,
+  planIncrementalScan,
+  readBadRowCounts,
+  renderColumnDefinition,
+  splitGrantPrivileges,
+  validateReplacementLiteral,
+  wilsonInterval,
+  zeroDateRange,
+} from "./index.js";
+import type {
+  ColumnInfo,
+  ReportContext,
+  ScanHistoryEntry,
+  ScanResult,
+  TableFingerprint,
+  TableScan,
+} from "./index.js";
+
+function column(
+  table: string,
+  name: string,
+  overrides: Partial<ColumnInfo> = {},
+): ColumnInfo {
+  return {
+    TABLE_SCHEMA: "app",
+    TABLE_NAME: table,
+    COLUMN_NAME: name,
+    DATA_TYPE: "datetime",
+    IS_NULLABLE: "NO",
+    COLUMN_DEFAULT: null,
+    badRowCount: 0,
+    badRowCounts: { zero: 0, partialZero: 0, invalid: 0 },
+    ...overrides,
+  };
+}
+
+function fingerprint(
+  table: string,
+  overrides: Partial<TableFingerprint> = {},
+): TableFingerprint {
+  return {
+    schema: "app",
+    table,
+    updateTime: "2026-10-01 12:00:00",
+    tableRows: 100,
+    checksum: null,
+    maxPrimaryKey: "100",
+    ...overrides,
+  };
+}
+
+function tableScan(
+  table: string,
+  columns: ColumnInfo[],
+  print: TableFingerprint = fingerprint(table),
+): TableScan {
+  return {
+    schema: "app",
+    table,
+    columns,
+    estimatedRows: print.tableRows,
+    fingerprint: print,
+  };
+}
+
+function historyEntry(
+  id: string,
+  columns: ColumnInfo[],
+  schemas = ["app"],
+): ScanHistoryEntry {
+  return {
+    id,
+    createdAt: `2026-10-0${id}T00:00:00.000Z`,
+    connection: { host: "127.0.0.1", port: 3306 },
+    schemas,
+    columns,
+  };
+}
+
+describe("splitGrantPrivileges", () => {
+  it("splits on commas outside column lists", () => {
+    assert.deepEqual(
+      splitGrantPrivileges("SELECT (`a`, `b`), UPDATE (`c`), ALTER"),
+      ["SELECT", "UPDATE", "ALTER"],
+    );
+  });
+
+  it("normalizes ALL PRIVILEGES", () => {
+    assert.deepEqual(splitGrantPrivileges("ALL PRIVILEGES"), ["ALL"]);
+  });
+});
+
+describe("parseGrant", () => {
+  it("parses schema-level grants with quoted names", () => {
+    assert.deepEqual(
+      parseGrant("GRANT SELECT, UPDATE ON `my``db`.* TO `fixer`@`%`"),
+      { privileges: ["SELECT", "UPDATE"], schema: "my`db", table: "*" },
+    );
+  });
+
+  it("parses table grants", () => {
+    assert.deepEqual(
+      parseGrant("GRANT ALTER ON TABLE app.orders TO 'fixer'@'localhost'"),
+      { privileges: ["ALTER"], schema: "app", table: "orders" },
+    );
+  });
+
+  it("ignores routine grants and role grants", () => {
+    assert.equal(
+      parseGrant("GRANT EXECUTE ON PROCEDURE app.p TO `fixer`@`%`"),
+      null,
+    );
+    assert.equal(parseGrant("GRANT `admin`@`%` TO `fixer`@`%`"), null);
+  });
+});
+
+describe("matchesGrantSchema", () => {
+  it("treats _ and % as LIKE wildcards", () => {
+    assert.ok(matchesGrantSchema("app_%", "app_eu"));
+    assert.ok(matchesGrantSchema("app_", "appX"));
+    assert.ok(!matchesGrantSchema("app_%", "other"));
+  });
+
+  it("treats escaped wildcards as literals", () => {
+    assert.ok(matchesGrantSchema("app\\_eu", "app_eu"));
+    assert.ok(!matchesGrantSchema("app\\_eu", "appXeu"));
+  });
+
+  it("matches everything with *", () => {
+    assert.ok(matchesGrantSchema("*", "anything"));
+  });
+});
+
+describe("parseColumnDefinition", () => {
+  const row = {
+    TABLE_SCHEMA: "app",
+    TABLE_NAME: "orders",
+    COLUMN_NAME: "updated_at",
+    DATA_TYPE: "timestamp",
+    COLUMN_TYPE: "timestamp(3)",
+    DATETIME_PRECISION: 3,
+    IS_NULLABLE: "NO",
+    COLUMN_DEFAULT: "CURRENT_TIMESTAMP(3)",
+    EXTRA: "DEFAULT_GENERATED on update CURRENT_TIMESTAMP(3)",
+    GENERATION_EXPRESSION: "",
+    CHARACTER_SET_NAME: null,
+    COLLATION_NAME: null,
+    COLUMN_COMMENT: "Last change",
+  };
+
+  it("reads ON UPDATE, defaults and comments", () => {
+    const definition = parseColumnDefinition(row);
+    assert.equal(definition.precision, 3);
+    assert.equal(definition.onUpdate, "CURRENT_TIMESTAMP(3)");
+    assert.equal(definition.defaultGenerated, true);
+    assert.equal(definition.generated, null);
+  });
+
+  it("renders back to an equivalent definition", () => {
+    assert.equal(
+      renderColumnDefinition(parseColumnDefinition(row)),
+      "timestamp(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3) COMMENT 'Last change'",
+    );
+  });
+
+  it("quotes MySQL literal defaults and keeps generated columns", () => {
+    assert.equal(
+      renderColumnDefinition(
+        parseColumnDefinition({
+          ...row,
+          COLUMN_TYPE: "datetime",
+          COLUMN_DEFAULT: "2000-01-01 00:00:00",
+          EXTRA: "",
+          COLUMN_COMMENT: "",
+        }),
+      ),
+      "datetime NOT NULL DEFAULT '2000-01-01 00:00:00'",
+    );
+    assert.equal(
+      renderColumnDefinition(
+        parseColumnDefinition({
+          ...row,
+          COLUMN_TYPE: "date",
+          COLUMN_DEFAULT: null,
+          IS_NULLABLE: "YES",
+          EXTRA: "VIRTUAL GENERATED",
+          GENERATION_EXPRESSION: "cast(`created_at` as date)",
+          COLUMN_COMMENT: "",
+        }),
+      ),
+      "date GENERATED ALWAYS AS (cast(`created_at` as date)) VIRTUAL NULL",
+    );
+  });
+});
+
+describe("planIncrementalScan", () => {
+  const previous: ScanResult = {
+    columns: [
+      column("orders", "created_at", { badRowCount: 3 }),
+      column("orders", "removed_at"),
+      column("users", "born_on", { DATA_TYPE: "date" }),
+      column("events", "at"),
+    ],
+    fingerprints: [
+      fingerprint("orders"),
+      fingerprint("users"),
+      fingerprint("events"),
+    ],
+  };
+
+  it("reuses unchanged tables and reports column changes", () => {
+    const plan = planIncrementalScan(
+      [
+        tableScan("orders", [
+          column("orders", "created_at"),
+          column("orders", "shipped_at"),
+        ]),
+        tableScan("users", [
+          column("users", "born_on", { DATA_TYPE: "date", IS_NULLABLE: "YES" }),
+        ]),
+        tableScan("events", [column("events", "at")], {
+          ...fingerprint("events"),
+          maxPrimaryKey: "101",
+        }),
+      ],
+      ["app"],
+      previous,
+    );
+
+    assert.deepEqual(
+      plan.scans.map((s) => [s.table, s.columns.map((c) => c.COLUMN_NAME)]),
+      [
+        ["orders", ["shipped_at"]],
+        ["users", ["born_on"]],
+        ["events", ["at"]],
+      ],
+    );
+    assert.deepEqual(
+      plan.reused.map((c) => [c.COLUMN_NAME, c.badRowCount]),
+      [["created_at", 3]],
+    );
+    assert.deepEqual(plan.changes.added, ["app.orders.shipped_at"]);
+    assert.deepEqual(plan.changes.dropped, ["app.orders.removed_at"]);
+    assert.deepEqual(plan.changes.redefined, ["app.users.born_on"]);
+  });
+
+  it("rescans tables without UPDATE_TIME or CHECKSUM", () => {
+    const unverifiable = fingerprint("orders", { updateTime: null });
+    const plan = planIncrementalScan(
+      [tableScan("orders", [column("orders", "created_at")], unverifiable)],
+      ["app"],
+      { columns: previous.columns, fingerprints: [unverifiable] },
+    );
+    assert.equal(plan.scans.length, 1);
+    assert.equal(plan.reused.length, 0);
+  });
+
+  it("rescans columns that failed to scan", () => {
+    const plan = planIncrementalScan(
+      [tableScan("orders", [column("orders", "created_at")])],
+      ["app"],
+      {
+        columns: [column("orders", "created_at", { badRowCount: -1 })],
+        fingerprints: [fingerprint("orders")],
+      },
+    );
+    assert.equal(plan.scans.length, 1);
+  });
+
+  it("does not count columns of newly selected schemas as added", () => {
+    const plan = planIncrementalScan(
+      [
+        {
+          ...tableScan("logs", []),
+          schema: "audit",
+          columns: [column("logs", "at", { TABLE_SCHEMA: "audit" })],
+        },
+      ],
+      ["app", "audit"],
+      previous,
+    );
+    assert.deepEqual(plan.changes.added, []);
+  });
+});
+
+describe("diffScans", () => {
+  it("reports new bad rows, fixes and new TIMESTAMP columns", () => {
+    const diff = diffScans(
+      historyEntry("1", [
+        column("orders", "created_at", { badRowCount: 5 }),
+        column("orders", "paid_at", { badRowCount: 2 }),
+        column("orders", "removed_at"),
+        column("orders", "seen_at"),
+      ]),
+      historyEntry("2", [
+        column("orders", "created_at", { badRowCount: 9 }),
+        column("orders", "paid_at"),
+        column("orders", "seen_at", { DATA_TYPE: "timestamp" }),
+        column("orders", "synced_at", {
+          DATA_TYPE: "timestamp",
+          badRowCount: 1,
+        }),
+      ]),
+    );
+
+    assert.deepEqual(
+      diff.newBadRows.map((c) => [c.column, c.before, c.after]),
+      [
+        ["app.orders.created_at", 5, 9],
+        ["app.orders.synced_at", 0, 1],
+      ],
+    );
+    assert.deepEqual(
+      diff.fixed.map((c) => c.column),
+      ["app.orders.paid_at"],
+    );
+    assert.deepEqual(diff.addedTimestamps, [
+      "app.orders.seen_at",
+      "app.orders.synced_at",
+    ]);
+    assert.deepEqual(diff.added, ["app.orders.synced_at"]);
+    assert.deepEqual(diff.dropped, ["app.orders.removed_at"]);
+  });
+
+  it("only compares schemas scanned both times", () => {
+    const diff = diffScans(
+      historyEntry("1", [column("orders", "created_at")]),
+      historyEntry(
+        "2",
+        [
+          column("orders", "created_at"),
+          column("logs", "at", { TABLE_SCHEMA: "audit", badRowCount: 4 }),
+        ],
+        ["app", "audit"],
+      ),
+    );
+    assert.deepEqual(diff.schemas, ["app"]);
+    assert.deepEqual(diff.newBadRows, []);
+    assert.deepEqual(diff.added, []);
+  });
+
+  it("counts rows written around a fix in between", () => {
+    const diff = diffScans(
+      historyEntry("1", [column("orders", "created_at", { badRowCount: 100 })]),
+      historyEntry("3", [column("orders", "created_at", { badRowCount: 10 })]),
+      [historyEntry("2", [column("orders", "created_at")])],
+    );
+    assert.deepEqual(
+      diff.newBadRows.map((c) => [c.column, c.before, c.after, c.newRows]),
+      [["app.orders.created_at", 100, 10, 10]],
+    );
+    assert.deepEqual(diff.fixed, []);
+  });
+
+  it("skips columns that failed to scan", () => {
+    const diff = diffScans(
+      historyEntry("1", [column("orders", "created_at", { badRowCount: -1 })]),
+      historyEntry("2", [column("orders", "created_at", { badRowCount: 7 })]),
+    );
+    assert.deepEqual(diff.newBadRows, []);
+  });
+});
+
+describe("formatReport", () => {
+  const context: ReportContext = {
+    host: "127.0.0.1",
+    port: 3306,
+    schemas: ["app"],
+    scannedAt: "2026-10-01T00:00:00.000Z",
+  };
+  const columns = [
+    column("orders", "created_at", {
+      badRowCount: 3,
+      badRowCounts: { zero: 2, partialZero: 1, invalid: 0 },
+    }),
+    column("orders", "note,at", { DATA_TYPE: "timestamp" }),
+  ];
+
+  it("writes JSON with a summary and one row per column", () => {
+    const report = JSON.parse(formatReport("json", columns, context));
+    assert.equal(report.columns.length, 2);
+    assert.equal(report.columns[0].status, "bad_data_not_nullable");
+    assert.equal(report.columns[1].risk2038, true);
+  });
+
+  it("marks sampled columns without bad rows as unverified", () => {
+    const report = JSON.parse(
+      formatReport(
+        "json",
+        [column("orders", "created_at", { approximate: true })],
+        context,
+      ),
+    );
+    assert.equal(report.columns[0].status, "unverified");
+    assert.equal(report.summary.unverified, 1);
+  });
+
+  it("quotes CSV fields that need it", () => {
+    const lines = formatReport("csv", columns, context).trim().split("\n");
+    assert.equal(lines.length, 3);
+    assert.ok(lines[2].includes('"note,at"'));
+    assert.ok(lines[1].startsWith("app,orders,created_at,datetime,"));
+  });
+
+  it("writes a JUnit failure per column with bad rows or 2038 risk", () => {
+    const report = formatReport("junit", columns, context);
+    assert.deepEqual(
+      [...report.matchAll(/<failure type="([^"]+)"/g)].map((m) => m[1]),
+      ["bad_data_not_nullable", "2038_risk"],
+    );
+    assert.ok(report.startsWith("<?xml"));
+  });
+
+  it("writes a Markdown table", () => {
+    const report = formatReport("markdown", columns, context);
+    assert.ok(report.includes("## app"));
+    assert.ok(
+      report.includes(
+        "| orders.created_at | datetime | NO | 2 | 1 | 0 | bad_data_not_nullable |",
+      ),
+    );
+  });
+});
+
+describe("wilsonInterval", () => {
+  it("brackets the observed proportion", () => {
+    const [low, high] = wilsonInterval(50, 1000);
+    assert.ok(low < 0.05 && 0.05 < high);
+    assert.ok(Math.abs(low - 0.0382) < 0.001);
+    assert.ok(Math.abs(high - 0.0653) < 0.001);
+  });
+
+  it("gives a non-zero upper bound when nothing was seen", () => {
+    const [low, high] = wilsonInterval(0, 1000);
+    assert.equal(low, 0);
+    assert.ok(high > 0.003 && high < 0.004);
+  });
+
+  it("covers everything without trials", () => {
+    assert.deepEqual(wilsonInterval(0, 0), [0, 1]);
+  });
+});
+
+describe("estimateFromSample", () => {
+  const counts = (zero: number) => ({ zero, partialZero: 0, invalid: 0 });
+  const spread = Array.from({ length: 40 }, (_, i) => ({
+    rows: 25,
+    counts: counts(i % 4 === 0 ? 1 : 0),
+  }));
+  const bunched = Array.from({ length: 40 }, (_, i) => ({
+    rows: 25,
+    counts: counts(i === 0 ? 10 : 0),
+  }));
+
+  it("scales the sampled share to the table", () => {
+    const estimate = estimateFromSample(spread, 1_000_000);
+    assert.equal(estimate.total, 10_000);
+    assert.deepEqual(estimate.counts, counts(10_000));
+    assert.ok(estimate.interval[0] < 10_000 && 10_000 < estimate.interval[1]);
+  });
+
+  it("widens the interval when bad rows bunch up in a few ranges", () => {
+    const even = estimateFromSample(spread, 1_000_000);
+    const clustered = estimateFromSample(bunched, 1_000_000);
+    assert.equal(clustered.total, even.total);
+    assert.ok(
+      clustered.interval[1] - clustered.interval[0] >
+        2 * (even.interval[1] - even.interval[0]),
+    );
+  });
+
+  it("never estimates below the rows actually seen", () => {
+    const estimate = estimateFromSample([{ rows: 25, counts: counts(3) }], 10);
+    assert.equal(estimate.total, 3);
+    assert.ok(estimate.interval[0] >= 3);
+  });
+
+  it("keeps an upper bound above zero when the sample is clean", () => {
+    const estimate = estimateFromSample(
+      Array.from({ length: 40 }, () => ({ rows: 25, counts: counts(0) })),
+      1_000_000,
+    );
+    assert.equal(estimate.total, 0);
+    assert.equal(estimate.interval[0], 0);
+    assert.ok(estimate.interval[1] > 1000);
+  });
+});
+
+describe("validateReplacementLiteral", () => {
+  it("accepts TIMESTAMP values up to the 2038 limit", () => {
+    assert.equal(validateReplacementLiteral("2038-01-19", "timestamp"), null);
+    assert.equal(
+      validateReplacementLiteral("2038-01-19 03:14:07", "timestamp"),
+      null,
+    );
+  });
+
+  it("rejects TIMESTAMP values outside the range", () => {
+    assert.ok(validateReplacementLiteral("2038-01-19 03:14:08", "timestamp"));
+    assert.ok(validateReplacementLiteral("1970-01-01 00:00:00", "timestamp"));
+  });
+
+  it("rejects impossible dates", () => {
+    assert.ok(validateReplacementLiteral("2021-02-30", "date"));
+    assert.ok(validateReplacementLiteral("0000-01-01", "datetime"));
+  });
+});
+
+describe("zeroDateRange", () => {
+  it("matches the zero DATE exactly", () => {
+    assert.equal(zeroDateRange("paid_on", "date"), "`paid_on` = '0000-00-00'");
+  });
+
+  it("covers the whole zero day, fractional seconds included", () => {
+    assert.equal(
+      zeroDateRange("paid_at", "datetime"),
+      "`paid_at` BETWEEN '0000-00-00 00:00:00' AND '0000-00-00 23:59:59.999999'",
+    );
+  });
+});
+
+describe("badRowCountSelects", () => {
+  const columns = [
+    { COLUMN_NAME: "created_at", DATA_TYPE: "datetime" as const },
+    {
+      COLUMN_NAME: "paid_on",
+      DATA_TYPE: "date" as const,
+      zeroFromIndex: true,
+    },
+  ];
+
+  it("counts every column in one select list", () => {
+    const selects = badRowCountSelects(columns);
+    assert.deepEqual(
+      selects.map((select) => select.match(/ AS (\w+)$/)?.[1]),
+      [
+        "c0_zero",
+        "c0_partialZero",
+        "c0_invalid",
+        "c1_zero",
+        "c1_partialZero",
+        "c1_invalid",
+      ],
+    );
+    assert.match(selects[0], /`created_at`/);
+    assert.match(selects[4], /`paid_on`/);
+  });
+
+  it("leaves zero dates of indexed columns to the index count", () => {
+    assert.equal(badRowCountSelects(columns)[3], "0 AS c1_zero");
+  });
+
+  it("reads the counts back per column", () => {
+    assert.deepEqual(
+      readBadRowCounts(
+        {
+          c0_zero: 3,
+          c0_partialZero: "1",
+          c0_invalid: 0,
+          c1_zero: 0,
+          c1_partialZero: 0,
+          c1_invalid: 2,
+        },
+        columns,
+      ),
+      [
+        { zero: 3, partialZero: 1, invalid: 0 },
+        { zero: 0, partialZero: 0, invalid: 2 },
+      ],
+    );
+  });
+});
@@ -1,23 +1,37 @@
 import dotenv from "dotenv";
 
-dotenv.config({ override: true });
+dotenv.config({ override: true, quiet: true });
 import Knex, { Knex as KnexType } from "knex";
-import { select, checkbox, confirm, Separator } from "@inquirer/prompts";
+import { select, checkbox, confirm, input, Separator } from "@inquirer/prompts";
 import chalk from "chalk";
 import ora from "ora";
-import { Command } from "commander";
+import { Command, InvalidArgumentError } from "commander";
 import * as fs from "fs";
 import * as path from "path";
+import * as readline from "readline";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
 
 // ============== Types ==============
+type DateDataType = "timestamp" | "datetime" | "date" | "year";
+
+interface BadRowCounts {
+  zero: number;
+  partialZero: number;
+  invalid: number;
+}
+
 interface ColumnInfo {
   TABLE_SCHEMA: string;
   TABLE_NAME: string;
   COLUMN_NAME: string;
-  DATA_TYPE: "timestamp" | "datetime";
+  DATA_TYPE: DateDataType;
   IS_NULLABLE: "YES" | "NO";
   COLUMN_DEFAULT: string | null;
   badRowCount: number;
+  badRowCounts: BadRowCounts;
+  // Set when the counts were estimated from a sample of the table
+  approximate?: boolean;
+  badRowInterval?: [number, number];
 }
 
 interface TableSelection {
@@ -25,30 +39,72 @@ interface TableSelection {
   table: string;
 }
 
+// The instance a local file (cache, backup, journal, ...) was written for
+interface ConnectionKey {
+  host: string;
+  port: number;
+  // Set for socket connections, whose host and port are only env defaults
+  socketPath?: string;
+}
+
 interface CacheData {
-  connection: {
-    host: string;
-    port: number;
-  };
+  connection: ConnectionKey;
   timestamp: string;
   schemas: string[];
   columns: ColumnInfo[];
+  // Missing in caches written before incremental scans
+  fingerprints?: TableFingerprint[];
+}
+
+// Connection settings beyond host and credentials; only profiles set them
+interface ConnectionOptions {
+  socketPath?: string;
+  database?: string;
+  connectTimeout?: number;
+  charset?: string;
+  ssl?: TlsOptions;
 }
 
-interface DbConfig {
+// Certificate paths are resolved against the profile file's directory
+interface TlsOptions {
+  ca?: string;
+  cert?: string;
+  key?: string;
+  rejectUnauthorized?: boolean;
+}
+
+interface DbConfig extends ConnectionOptions {
   host: string;
   port: number;
   user: string;
   password: string;
 }
 
-interface SourceDbConfig {
+interface SourceDbConfig extends ConnectionOptions {
   host: string;
   port: number;
   user: string;
   password: string;
 }
 
+interface ConnectionProfile extends ConnectionOptions {
+  host?: string;
+  port?: number;
+  user?: string;
+  password?: string;
+}
+
+interface ProfileFile {
+  profiles: Record<string, ConnectionProfile>;
+}
+
+interface ProfileOptions {
+  file: string;
+  profile: string | null;
+  // null: use the "source" profile when the file has one
+  sourceProfile: string | null;
+}
+
 interface ColumnDefault {
   TABLE_SCHEMA: string;
   TABLE_NAME: string;
@@ -59,6 +115,456 @@ interface ColumnDefault {
   EXTRA: string;
 }
 
+interface ScriptStatement {
+  sql: string;
+  description: string;
+  estimatedRows: number | null;
+  alter?: {
+    schema: string;
+    table: string;
+    body: string;
+  };
+}
+
+interface SqlScript {
+  statements: ScriptStatement[];
+}
+
+interface ScriptContext {
+  host: string;
+  port: number;
+  schemas: string[];
+  scannedAt: string | null;
+  action: string;
+}
+
+type ColumnStatus =
+  | "scan_error"
+  | "bad_data_not_nullable"
+  | "bad_data"
+  | "unverified"
+  | "2038_risk"
+  | "ok";
+
+interface ScanSummary {
+  schemas: number;
+  columns: number;
+  timestamps: number;
+  badColumns: number;
+  fixable: number;
+  unfixable: number;
+  scanErrors: number;
+  unverified: number;
+  badRows: BadRowCounts;
+}
+
+type ReportFormat = "table" | "json" | "csv" | "markdown" | "junit";
+
+interface ReportContext {
+  host: string;
+  port: number;
+  schemas: string[];
+  scannedAt: string | null;
+}
+
+interface CheckThresholds {
+  badRows: number;
+  unfixable: number;
+  timestamps: number;
+  scanErrors: number;
+  unverified: number;
+}
+
+type ReplaceStrategy =
+  | { kind: "null" }
+  | { kind: "literal"; value: string }
+  | { kind: "default" }
+  | { kind: "column"; column: string };
+
+// The SET expression for bad dates, and a condition a row must also meet to
+// be updated; column copies leave rows whose source is no usable date alone
+interface Replacement {
+  expression: string;
+  condition: string | null;
+}
+
+interface ReplaceRule {
+  pattern: string;
+  strategy: ReplaceStrategy;
+}
+
+type PlanStrategy = "null" | "replace" | "allow_null" | "convert" | "skip";
+
+interface PlanColumn {
+  schema: string;
+  table: string;
+  column: string;
+  dataType: DateDataType;
+  nullable: boolean;
+  badRows: number;
+  strategy: PlanStrategy;
+  // replace only: default, column:<name> or literal:<value>
+  replaceWith?: string;
+}
+
+interface FixPlan {
+  version: 1;
+  createdAt: string;
+  scannedAt: string | null;
+  source: {
+    host: string;
+    port: number;
+  };
+  // convert only: zone for converted DATETIME values (see --time-zone)
+  timeZone?: string;
+  columns: PlanColumn[];
+}
+
+interface BackupRow {
+  key: Record<string, unknown>;
+  value: string;
+}
+
+interface ColumnBackup {
+  schema: string;
+  table: string;
+  column: string;
+  dataType: DateDataType;
+  primaryKey: string[];
+  // SQL expression the fix wrote; absent in backups made before replacements
+  replacement?: string;
+  // JSONL file in the backup directory, one BackupRow per line
+  rowsFile: string;
+  rowCount: number;
+}
+
+interface BackupFile {
+  id: string;
+  createdAt: string;
+  restoredAt: string | null;
+  connection: ConnectionKey;
+  columns: ColumnBackup[];
+}
+
+// A column as information_schema.COLUMNS describes it, split into the
+// attributes a MODIFY COLUMN has to repeat. ALTERs change one field and
+// render the rest back unchanged.
+interface ColumnDefinition {
+  schema: string;
+  table: string;
+  column: string;
+  dataType: string;
+  columnType: string;
+  precision: number | null;
+  nullable: boolean;
+  columnDefault: string | null;
+  defaultGenerated: boolean;
+  onUpdate: string | null;
+  generated: { expression: string; stored: boolean } | null;
+  invisible: boolean;
+  characterSet: string | null;
+  collation: string | null;
+  comment: string;
+}
+
+interface ColumnSnapshot {
+  schema: string;
+  table: string;
+  column: string;
+  definition: Record<string, unknown>;
+}
+
+type RunStepKind = "allow_null" | "convert" | "fix" | "sync_default";
+type RunStepStatus = "pending" | "running" | "done" | "failed";
+
+// One unit of work in a run: a table-level ALTER or a column-level fix.
+// Steps are written before anything runs, so the journal doubles as the plan.
+interface RunStep {
+  kind: RunStepKind;
+  schema: string;
+  table: string;
+  columns: string[];
+  status: RunStepStatus;
+  startedAt: string | null;
+  finishedAt: string | null;
+  affectedRows: number | null;
+  error: string | null;
+  // convert only: pinned session zone, null for the session zone
+  timeZone?: string | null;
+  // fix only: what bad dates are replaced with
+  strategy?: ReplaceStrategy;
+}
+
+interface RunJournal {
+  id: string;
+  action: string;
+  // apply only: the plan file the run came from
+  plan?: string | null;
+  createdAt: string;
+  finishedAt?: string | null;
+  rolledBackAt: string | null;
+  connection: ConnectionKey;
+  snapshots: ColumnSnapshot[];
+  // Absent in journals written before steps were recorded
+  steps?: RunStep[];
+}
+
+interface SqlCondition {
+  sql: string;
+  bindings: unknown[];
+}
+
+interface BatchOptions {
+  size: number;
+  sleepMs: number;
+}
+
+interface BatchProgress {
+  batch: number;
+  lastKey: Record<string, unknown> | null;
+  updatedRows: number;
+}
+
+interface FixProgressEntry {
+  lastKey: Record<string, unknown>;
+  updatedRows: number;
+  updatedAt: string;
+}
+
+interface FixProgressFile {
+  connection: ConnectionKey;
+  columns: Record<string, FixProgressEntry>;
+}
+
+interface ThrottleOptions {
+  replicas: DbConfig[];
+  maxReplicaLag: number;
+  maxThreadsRunning: number;
+  pollMs: number;
+}
+
+interface Throttle {
+  options: ThrottleOptions;
+  replicas: { config: DbConfig; knex: KnexType }[];
+}
+
+interface FixOptions {
+  backup: BackupFile | null;
+  batch: BatchOptions;
+  progress: FixProgressFile | null;
+  throttle: Throttle | null;
+  replaceRules: ReplaceRule[];
+  journal: RunJournal | null;
+  costSort: CostSort;
+}
+
+interface TimeZoneInfo {
+  session: string;
+  global: string;
+  system: string;
+}
+
+interface TimestampSample {
+  key: Record<string, unknown>;
+  values: Record<string, string | null>;
+}
+
+interface ConversionCheck {
+  schema: string;
+  table: string;
+  sampled: number;
+  mismatches: string[];
+  skipped: string | null;
+  affectedRows: number;
+}
+
+type OnlineMode = "native" | "off" | "pt-osc" | "gh-ost";
+
+type AlterKind = "change_type" | "change_nullability" | "change_attributes";
+
+interface ServerInfo {
+  version: string;
+  flavor: "mysql" | "mariadb";
+  major: number;
+  minor: number;
+}
+
+interface OnlineAlter {
+  algorithm: "INPLACE" | "COPY";
+  lock: "NONE" | "SHARED";
+}
+
+type CostSort = "name" | "rows" | "size" | "duration";
+
+interface TableCost {
+  rows: number;
+  dataBytes: number;
+  indexBytes: number;
+  rebuild: boolean;
+  estimatedSeconds: number;
+}
+
+type DependencyKind =
+  | "trigger"
+  | "view"
+  | "routine"
+  | "event"
+  | "foreign_key"
+  | "index"
+  | "generated_column";
+
+// What is about to happen to the column: a data fix or one of the ALTERs
+type DependencyOperation = "update" | AlterKind;
+
+// Undo and rollback only know a backup's or snapshot's column by name
+type ColumnRef = Pick<
+  ColumnInfo,
+  "TABLE_SCHEMA" | "TABLE_NAME" | "COLUMN_NAME"
+>;
+
+interface ColumnDependency {
+  schema: string;
+  table: string;
+  column: string;
+  kind: DependencyKind;
+  name: string;
+  detail: string;
+  blocking: boolean;
+}
+
+interface DependencyOptions {
+  ignoreBlockers: boolean;
+}
+
+interface HistoryOptions {
+  limit: number;
+}
+
+interface OnlineOptions {
+  mode: OnlineMode;
+  server: ServerInfo | null;
+}
+
+// One scan as kept in the history directory, the same shape as the cache
+interface ScanHistoryEntry {
+  id: string;
+  createdAt: string;
+  connection: ConnectionKey;
+  schemas: string[];
+  columns: ColumnInfo[];
+}
+
+interface ColumnChange {
+  column: string;
+  dataType: DateDataType;
+  before: number;
+  after: number;
+  // Bad rows written since the older scan, summed over the scans in between,
+  // so rows a fix removed in the meantime don't hide new ones
+  newRows: number;
+  approximate: boolean;
+}
+
+interface ScanDiff {
+  from: { id: string; createdAt: string };
+  to: { id: string; createdAt: string };
+  // Schemas scanned both times; only these are compared
+  schemas: string[];
+  newBadRows: ColumnChange[];
+  fixed: ColumnChange[];
+  addedTimestamps: string[];
+  added: string[];
+  dropped: string[];
+}
+
+interface AuditPrediction {
+  schema: string;
+  table: string;
+  column: string;
+  trigger: "strict_mode" | "upgrade";
+  problem: string;
+}
+
+interface ServerAudit {
+  server: ServerInfo;
+  sqlMode: {
+    global: string[];
+    session: string[];
+  };
+  missingStrictModes: string[];
+  explicitDefaultsForTimestamp: boolean | null;
+  timeZone: TimeZoneInfo;
+  predictions: AuditPrediction[];
+}
+
+// One parsed SHOW GRANTS line; "*" stands for any schema or table
+interface GrantRule {
+  privileges: string[];
+  schema: string;
+  table: string;
+}
+
+interface Grants {
+  user: string;
+  rules: GrantRule[];
+}
+
+interface TableAccess {
+  schema: string;
+  table: string;
+  select: boolean;
+  update: boolean;
+  alter: boolean;
+}
+
+interface ScanOptions {
+  concurrency: number;
+  // Tables with more estimated rows than this are sampled (0 = never)
+  sampleAboveRows: number;
+  sampleSize: number;
+}
+
+// The date columns of one table, scanned together
+interface TableScan {
+  schema: string;
+  table: string;
+  columns: Omit<ColumnInfo, "badRowCount" | "badRowCounts">[];
+  estimatedRows: number;
+  fingerprint: TableFingerprint;
+}
+
+// What the server reports about a table's contents, compared between scans
+// to tell whether it needs rescanning
+interface TableFingerprint {
+  schema: string;
+  table: string;
+  updateTime: string | null;
+  tableRows: number;
+  checksum: number | null;
+  maxPrimaryKey: string | null;
+}
+
+interface ScanResult {
+  columns: ColumnInfo[];
+  fingerprints: TableFingerprint[];
+}
+
+// How an incremental scan differs from the cached one
+interface ScanChanges {
+  reusedColumns: number;
+  rescannedTables: number;
+  added: string[];
+  dropped: string[];
+  redefined: string[];
+}
+
+interface InputOptions {
+  interactive: boolean;
+  yes: boolean;
+  schemas: string[] | null;
+  tables: string[] | null;
+}
+
 type Action =
   | "scan"
   | "report"
@@ -66,9 +572,176 @@ type Action =
   | "allow_nulls"
   | "convert_timestamps"
   | "sync_defaults"
+  | "undo"
+  | "rollback"
+  | "check"
+  | "plan"
+  | "apply"
+  | "resume"
+  | "audit"
+  | "diff"
+  | "toggle_dry_run"
   | "exit";
 
+const ACTIONS: Action[] = [
+  "scan",
+  "report",
+  "fix_nulls",
+  "allow_nulls",
+  "convert_timestamps",
+  "sync_defaults",
+  "undo",
+  "rollback",
+  "check",
+  "plan",
+  "apply",
+  "resume",
+  "audit",
+  "diff",
+  "toggle_dry_run",
+  "exit",
+];
+
+// Check failures are bit flags so a combined exit code tells CI exactly which
+// problems were found; 1 stays reserved for fatal errors.
+const CHECK_EXIT_CODES = {
+  badData: 2,
+  unfixable: 4,
+  timestamps: 8,
+  scanErrors: 16,
+  unverified: 32,
+};
+
 const CACHE_FILE = ".db-fixer-cache.json";
+const BACKUP_DIR = ".db-fixer-backups";
+const RUN_DIR = ".db-fixer-runs";
+const HISTORY_DIR = ".db-fixer-history";
+const PROGRESS_FILE = ".db-fixer-progress.json";
+
+const DEFAULT_BATCH_OPTIONS: BatchOptions = {
+  size: 10000,
+  sleepMs: 0,
+};
+
+const CONVERSION_SAMPLE_SIZE = 100;
+
+const DEFAULT_PLAN_FILE = "db-fixer-plan.yaml";
+const DEFAULT_PROFILE_FILE = "db-fixer.config.yaml";
+const DEFAULT_SOURCE_PROFILE = "source";
+const PLAN_STRATEGIES: PlanStrategy[] = [
+  "null",
+  "replace",
+  "allow_null",
+  "convert",
+  "skip",
+];
+
+const ONLINE_MODES: OnlineMode[] = ["native", "off", "pt-osc", "gh-ost"];
+
+// Actions whose ALTERs are handed to pt-osc / gh-ost in those --online modes
+const ONLINE_TOOL_ACTIONS: Action[] = [
+  "allow_nulls",
+  "convert_timestamps",
+  "sync_defaults",
+  "rollback",
+  "apply",
+  "resume",
+];
+
+const ALTER_KIND_LABELS: Record<AlterKind, string> = {
+  change_type: "type changes",
+  change_nullability: "NULL/NOT NULL changes",
+  change_attributes: "default changes",
+};
+
+// Weakest first: metadata changes, then rebuilds, then table copies
+const ALTER_KIND_STRENGTH: AlterKind[] = [
+  "change_attributes",
+  "change_nullability",
+  "change_type",
+];
+
+const COST_SORTS: CostSort[] = ["name", "rows", "size", "duration"];
+
+// Rough rebuild throughput. Real speed depends on disk, buffer pool and the
+// number of indexes, so estimates are for scheduling, not promises.
+const ALTER_BYTES_PER_SECOND: Record<OnlineAlter["algorithm"], number> = {
+  COPY: 20 * 1024 * 1024,
+  INPLACE: 50 * 1024 * 1024,
+};
+// pt-osc and gh-ost copy rows in chunks while replaying writes, which is
+// slower than the server's own copy
+const ONLINE_TOOL_BYTES_PER_SECOND = 10 * 1024 * 1024;
+
+// Flags that make the server reject bad dates. MySQL 5.7+ enables all three
+// by default. TRADITIONAL includes them, and @@sql_mode lists its parts, so
+// the audit sees them. STRICT_ALL_TABLES includes neither NO_ZERO_DATE nor
+// NO_ZERO_IN_DATE.
+const STRICT_DATE_SQL_MODES = [
+  "STRICT_TRANS_TABLES",
+  "NO_ZERO_DATE",
+  "NO_ZERO_IN_DATE",
+];
+const RELAXED_SQL_MODES = [
+  ...STRICT_DATE_SQL_MODES,
+  "STRICT_ALL_TABLES",
+  "TRADITIONAL",
+];
+const CLEAR_SQL_MODE = "SET SESSION sql_mode = ''";
+
+const DEFAULT_SCAN_OPTIONS: ScanOptions = {
+  concurrency: 4,
+  sampleAboveRows: 0,
+  sampleSize: 10000,
+};
+
+// A sample is read as many short primary-key ranges from random start keys,
+// so rows that are bad together (inserted by the same code at the same time)
+// land in few ranges; several ranges are read per query
+const SAMPLE_RANGE_ROWS = 25;
+const SAMPLE_RANGES_PER_QUERY = 20;
+const INTEGER_DATA_TYPES = [
+  "tinyint",
+  "smallint",
+  "mediumint",
+  "int",
+  "bigint",
+];
+
+// knex's default pool size; raised when more scans run in parallel
+const DEFAULT_POOL_SIZE = 10;
+
+const DEFAULT_MAX_REPLICA_LAG = 10;
+const DEFAULT_THROTTLE_POLL_MS = 5000;
+
+const DATE_DATA_TYPES: DateDataType[] = [
+  "timestamp",
+  "datetime",
+  "date",
+  "year",
+];
+
+// Values a TIMESTAMP column can hold
+const TIMESTAMP_RANGE = ["1970-01-01 00:00:01", "2038-01-19 03:14:07"];
+
+const NULL_REPLACEMENT: Replacement = { expression: "NULL", condition: null };
+
+const EMPTY_BAD_ROW_COUNTS: BadRowCounts = {
+  zero: 0,
+  partialZero: 0,
+  invalid: 0,
+};
+
+const REPORT_FORMATS: ReportFormat[] = [
+  "table",
+  "json",
+  "csv",
+  "markdown",
+  "junit",
+];
+
+// Actions whose results have no tabular form only serialize to JSON
+const JSON_ONLY_ACTIONS: Action[] = ["audit", "diff"];
 
 const SYSTEM_SCHEMAS = [
   "information_schema",
@@ -77,19 +750,172 @@ const SYSTEM_SCHEMAS = [
   "sys",
 ];
 
+// ============== Input Handling ==============
+// Set once from the CLI flags in main. Prompts consult it so the tool can run
+// without a TTY, failing loudly when an answer is missing instead of hanging.
+const inputOptions: InputOptions = {
+  interactive: true,
+  yes: false,
+  schemas: null,
+  tables: null,
+};
+
+class InputRequiredError extends Error {
+  constructor(question: string, hint: string) {
+    super(`${question} requires input, but no TTY is available. ${hint}`);
+    this.name = "InputRequiredError";
+  }
+}
+
+// Executors report their own failures so the menu stays usable. Without a
+// TTY nobody sees the menu, so main exits with 1 once an action has failed.
+const runStatus = { failed: false };
+
+function recordActionFailure(error?: unknown): void {
+  if (error instanceof InputRequiredError) throw error;
+  if (!inputOptions.interactive) runStatus.failed = true;
+}
+
+function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function parseNonNegativeInt(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidArgumentError("Expected an integer >= 0.");
+  }
+  return parsed;
+}
+
+function parsePositiveInt(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError("Expected an integer >= 1.");
+  }
+  return parsed;
+}
+
+// Matches "schema.table" style names against patterns with "*" wildcards.
+function matchesPattern(name: string, pattern: string): boolean {
+  const regex = new RegExp(
+    "^" +
+      pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*") +
+      "$",
+  );
+  return regex.test(name);
+}
+
+async function confirmOrAssume(config: {
+  message: string;
+  default?: boolean;
+}): Promise<boolean> {
+  if (inputOptions.yes) {
+    console.log(chalk.gray(`${config.message} ${chalk.cyan("yes (--yes)")}`));
+    return true;
+  }
+  if (!inputOptions.interactive) {
+    throw new InputRequiredError(
+      `"${config.message}"`,
+      "Pass --yes to confirm automatically.",
+    );
+  }
+  return confirm(config);
+}
+
 // ============== Configuration ==============
+// Set once from --config, --profile and --source-profile in main
+const profileOptions: ProfileOptions = {
+  file: DEFAULT_PROFILE_FILE,
+  profile: null,
+  sourceProfile: null,
+};
+
+// YAML is a superset of JSON, so one parser reads both formats
+function loadProfiles(filePath: string): Record<string, ConnectionProfile> {
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+  const file = parseYaml(fs.readFileSync(filePath, "utf-8")) as ProfileFile;
+  if (typeof file?.profiles !== "object" || file.profiles === null) {
+    throw new Error(
+      `${filePath} has no "profiles" map (expected "profiles: { <name>: { host, port, ... } }")`,
+    );
+  }
+
+  const baseDir = path.dirname(filePath);
+  const resolve = (file?: string) =>
+    file === undefined ? undefined : path.resolve(baseDir, file);
+  return Object.fromEntries(
+    Object.entries(file.profiles).map(([name, profile]) => [
+      name,
+      {
+        ...profile,
+        ssl: profile.ssl && {
+          ...profile.ssl,
+          ca: resolve(profile.ssl.ca),
+          cert: resolve(profile.ssl.cert),
+          key: resolve(profile.ssl.key),
+        },
+      },
+    ]),
+  );
+}
+
+function getProfile(name: string): ConnectionProfile {
+  const filePath = path.resolve(process.cwd(), profileOptions.file);
+  const profiles = loadProfiles(filePath);
+  const profile = profiles[name];
+  if (!profile) {
+    const known = Object.keys(profiles);
+    throw new Error(
+      known.length > 0
+        ? `Profile "${name}" not found in ${filePath}. Available: ${known.join(", ")}`
+        : `Profile "${name}" requested, but ${filePath} has no profiles`,
+    );
+  }
+  return profile;
+}
+
+// Picks the connection options out of a profile, leaving unset ones out
+function getConnectionOptions(profile: ConnectionProfile): ConnectionOptions {
+  const { socketPath, database, connectTimeout, charset, ssl } = profile;
+  return Object.fromEntries(
+    Object.entries({
+      socketPath,
+      database,
+      connectTimeout,
+      charset,
+      ssl,
+    }).filter(([, value]) => value !== undefined),
+  );
+}
+
+// Profile values win; anything a profile leaves out comes from the env
 function getConfig(): DbConfig {
+  const profile = profileOptions.profile
+    ? getProfile(profileOptions.profile)
+    : {};
   const config: DbConfig = {
-    host: process.env.DB_HOST || "127.0.0.1",
-    port: Number(process.env.DB_PORT) || 3306,
-    user: process.env.DB_USER || "root",
-    password: process.env.DB_PASSWORD || "",
+    host: profile.host || process.env.DB_HOST || "127.0.0.1",
+    port: Number(profile.port) || Number(process.env.DB_PORT) || 3306,
+    user: profile.user || process.env.DB_USER || "root",
+    password: profile.password ?? (process.env.DB_PASSWORD || ""),
+    ...getConnectionOptions(profile),
   };
 
   if (!config.password) {
     console.log(
       chalk.yellow(
-        "⚠️  Warning: DB_PASSWORD is empty. Check your .env file.\n",
+        profileOptions.profile
+          ? `⚠️  Warning: profile "${profileOptions.profile}" has no password and DB_PASSWORD is empty.\n`
+          : "⚠️  Warning: DB_PASSWORD is empty. Check your .env file.\n",
       ),
     );
   }
@@ -98,18 +924,88 @@ function getConfig(): DbConfig {
 }
 
 function getSourceConfig(): SourceDbConfig | null {
-  const host = process.env.SOURCE_DB_HOST;
-  if (!host) return null;
+  let profile: ConnectionProfile | null = null;
+  if (profileOptions.sourceProfile) {
+    profile = getProfile(profileOptions.sourceProfile);
+  } else {
+    // The default "source" profile is optional; without it the env decides
+    profile =
+      loadProfiles(path.resolve(process.cwd(), profileOptions.file))[
+        DEFAULT_SOURCE_PROFILE
+      ] ?? null;
+  }
+
+  const host = profile?.host || process.env.SOURCE_DB_HOST;
+  if (!host && !profile?.socketPath) return null;
 
   return {
-    host,
-    port: Number(process.env.SOURCE_DB_PORT) || 3306,
-    user: process.env.SOURCE_DB_USER || process.env.DB_USER || "root",
-    password: process.env.SOURCE_DB_PASSWORD || process.env.DB_PASSWORD || "",
+    host: host || "localhost",
+    port: Number(profile?.port) || Number(process.env.SOURCE_DB_PORT) || 3306,
+    user:
+      profile?.user ||
+      process.env.SOURCE_DB_USER ||
+      process.env.DB_USER ||
+      "root",
+    password:
+      profile?.password ??
+      (process.env.SOURCE_DB_PASSWORD || process.env.DB_PASSWORD || ""),
+    ...(profile ? getConnectionOptions(profile) : {}),
   };
 }
 
-function createKnex(config: DbConfig | SourceDbConfig): KnexType {
+function describeConnection(config: DbConfig | SourceDbConfig): string {
+  return config.socketPath
+    ? `${config.socketPath} (socket)`
+    : `${config.host}:${config.port}`;
+}
+
+// A socket path identifies the instance on its own; two socket profiles
+// share the env's default host and port
+function getConnectionKey(config: DbConfig): ConnectionKey {
+  return config.socketPath
+    ? { host: config.host, port: config.port, socketPath: config.socketPath }
+    : { host: config.host, port: config.port };
+}
+
+function isSameConnection(
+  connection: ConnectionKey | undefined,
+  config: DbConfig,
+): boolean {
+  if (!connection) return false;
+  if (connection.socketPath || config.socketPath) {
+    return connection.socketPath === config.socketPath;
+  }
+  return connection.host === config.host && connection.port === config.port;
+}
+
+// Replicas to watch while throttling, as "host[:port]" or socket path entries
+// from --replicas or REPLICA_HOSTS. They use the primary's TLS, timeout and
+// charset settings.
+function getReplicaConfigs(primary: DbConfig, list?: string): DbConfig[] {
+  const hosts = parseList(list ?? process.env.REPLICA_HOSTS ?? "");
+  const { ssl, connectTimeout, charset } = primary;
+  const options = getConnectionOptions({ ssl, connectTimeout, charset });
+
+  return hosts.map((entry) => {
+    const [host, port] = entry.startsWith("/")
+      ? ["localhost", undefined]
+      : entry.split(":");
+    return {
+      host,
+      port: Number(port) || 3306,
+      user: process.env.REPLICA_USER || process.env.DB_USER || "root",
+      password: process.env.REPLICA_PASSWORD || process.env.DB_PASSWORD || "",
+      ...options,
+      ...(entry.startsWith("/") ? { socketPath: entry } : {}),
+    };
+  });
+}
+
+function createKnex(
+  config: DbConfig | SourceDbConfig,
+  poolSize = DEFAULT_POOL_SIZE,
+): KnexType {
+  const { ssl } = config;
   return Knex({
     client: "mysql2",
     connection: {
@@ -117,7 +1013,23 @@ function createKnex(config: DbConfig | SourceDbConfig): KnexType {
       port: config.port,
       user: config.user,
       password: config.password,
+      socketPath: config.socketPath,
+      database: config.database,
+      connectTimeout: config.connectTimeout,
+      charset: config.charset,
+      ssl: ssl && {
+        ca: ssl.ca && fs.readFileSync(ssl.ca, "utf-8"),
+        cert: ssl.cert && fs.readFileSync(ssl.cert, "utf-8"),
+        key: ssl.key && fs.readFileSync(ssl.key, "utf-8"),
+        rejectUnauthorized: ssl.rejectUnauthorized ?? true,
+      },
+      // Zero dates cannot be represented as JS Dates
+      dateStrings: true,
+      // BIGINT keys above 2^53 come back as strings instead of being rounded,
+      // so resume state and backups point at the right rows
+      supportBigNumbers: true,
     },
+    pool: { max: poolSize },
   });
 }
 
@@ -136,10 +1048,12 @@ function loadCache(config: DbConfig): CacheData | null {
     const cache = JSON.parse(data) as CacheData;
 
     // Invalidate cache if connection changed
-    if (
-      cache.connection?.host !== config.host ||
-      cache.connection?.port !== config.port
-    ) {
+    if (!isSameConnection(cache.connection, config)) {
+      return null;
+    }
+
+    // Invalidate caches written before bad dates were categorized
+    if (cache.columns.some((c) => !c.badRowCounts)) {
       return null;
     }
 
@@ -150,21 +1064,27 @@ function loadCache(config: DbConfig): CacheData | null {
 }
 
 function saveCache(
+  enabled: boolean,
   config: DbConfig,
   schemas: string[],
   columns: ColumnInfo[],
-): void {
+  fingerprints: TableFingerprint[],
+): string {
   const cachePath = getCachePath();
   const data: CacheData = {
-    connection: {
-      host: config.host,
-      port: config.port,
-    },
+    connection: getConnectionKey(config),
     timestamp: new Date().toISOString(),
     schemas,
     columns,
+    fingerprints,
   };
-  fs.writeFileSync(cachePath, JSON.stringify(data, null, 2), "utf-8");
+  if (enabled) {
+    fs.writeFileSync(cachePath, JSON.stringify(data, null, 2), "utf-8");
+    // Rescans after a fix are kept too, so a diff across the fix still sees
+    // rows written before and after it
+    saveScanHistory(config, schemas, columns, data.timestamp);
+  }
+  return data.timestamp;
 }
 
 function formatCacheAge(timestamp: string): string {
@@ -179,546 +1099,4095 @@ function formatCacheAge(timestamp: string): string {
   return "just now";
 }
 
-// ============== Database Queries ==============
-async function getAllSchemas(knex: KnexType): Promise<string[]> {
-  const result = await knex.raw("SHOW DATABASES");
-  const databases: string[] = result[0].map(
-    (row: { Database: string }) => row.Database,
-  );
+// ============== Scan History ==============
+// Every scan is also kept as its own file, so later scans can be compared
+// with earlier ones; the cache only ever holds the latest.
+// Set once from --history-limit in main
+const historyOptions: HistoryOptions = {
+  limit: 100,
+};
 
-  return databases.filter((db) => !SYSTEM_SCHEMAS.includes(db));
+function getHistoryDir(): string {
+  return path.resolve(process.cwd(), HISTORY_DIR);
 }
 
-async function getDateColumns(
-  knex: KnexType,
+function saveScanHistory(
+  config: DbConfig,
   schemas: string[],
-): Promise<Omit<ColumnInfo, "badRowCount">[]> {
-  const columns = await knex("information_schema.COLUMNS")
-    .select(
-      "TABLE_SCHEMA",
-      "TABLE_NAME",
-      "COLUMN_NAME",
-      "DATA_TYPE",
-      "IS_NULLABLE",
-      "COLUMN_DEFAULT",
-    )
-    .whereIn("TABLE_SCHEMA", schemas)
-    .whereIn("DATA_TYPE", ["timestamp", "datetime"]);
+  columns: ColumnInfo[],
+  createdAt: string,
+): string {
+  const entry: ScanHistoryEntry = {
+    id: createdAt.replace(/[:.]/g, "-"),
+    createdAt,
+    connection: getConnectionKey(config),
+    schemas,
+    columns,
+  };
+  const historyDir = getHistoryDir();
+  fs.mkdirSync(historyDir, { recursive: true });
+  const historyPath = path.join(historyDir, `${entry.id}.json`);
+  fs.writeFileSync(historyPath, JSON.stringify(entry, null, 2), "utf-8");
+  pruneScanHistory(config);
+  return historyPath;
+}
 
-  return columns;
+// Keeps the newest scans of this connection; 0 keeps all of them
+function pruneScanHistory(config: DbConfig): void {
+  if (historyOptions.limit === 0) return;
+  for (const entry of listScanHistory(config).slice(historyOptions.limit)) {
+    fs.rmSync(path.join(getHistoryDir(), `${entry.id}.json`), {
+      force: true,
+    });
+  }
 }
 
-async function countBadRows(
-  knex: KnexType,
-  schema: string,
-  table: string,
-  column: string,
-): Promise<number> {
-  try {
-    const result = await knex.raw(
-      `SELECT COUNT(*) as count FROM \`${schema}\`.\`${table}\` WHERE CAST(\`${column}\` AS CHAR) LIKE '0000-00-00%'`,
+function listScanHistory(config: DbConfig): ScanHistoryEntry[] {
+  return listConnectionFiles<ScanHistoryEntry>(getHistoryDir(), config);
+}
+
+// `between` holds the scans taken between the two, oldest first
+function diffScans(
+  from: ScanHistoryEntry,
+  to: ScanHistoryEntry,
+  between: ScanHistoryEntry[] = [],
+): ScanDiff {
+  const columnKey = (c: ColumnInfo) =>
+    `${c.TABLE_SCHEMA}.${c.TABLE_NAME}.${c.COLUMN_NAME}`;
+  const schemas = to.schemas.filter((s) => from.schemas.includes(s));
+  const compared = (columns: ColumnInfo[]) =>
+    new Map(
+      columns
+        .filter((c) => schemas.includes(c.TABLE_SCHEMA))
+        .map((c) => [columnKey(c), c]),
     );
-    return result[0][0].count;
-  } catch (error) {
-    // Table might be locked or inaccessible
-    return -1;
+  const before = compared(from.columns);
+  const after = compared(to.columns);
+  const intermediate = between.map((entry) =>
+    entry.schemas.some((s) => schemas.includes(s))
+      ? compared(entry.columns)
+      : new Map<string, ColumnInfo>(),
+  );
+
+  const diff: ScanDiff = {
+    from: { id: from.id, createdAt: from.createdAt },
+    to: { id: to.id, createdAt: to.createdAt },
+    schemas,
+    newBadRows: [],
+    fixed: [],
+    addedTimestamps: [],
+    added: [],
+    dropped: [...before.keys()].filter((key) => !after.has(key)),
+  };
+
+  for (const [key, col] of after) {
+    const old = before.get(key);
+    if (!old) diff.added.push(key);
+    if (col.DATA_TYPE === "timestamp" && old?.DATA_TYPE !== "timestamp") {
+      diff.addedTimestamps.push(key);
+    }
+    // Columns that failed to scan either time have nothing to compare
+    if (col.badRowCount === -1 || old?.badRowCount === -1) continue;
+
+    // Every rise between consecutive scans is new rows; a fix in between
+    // only lowers the count
+    const counts = [
+      old?.badRowCount ?? 0,
+      ...intermediate.flatMap((columns) => {
+        const count = columns.get(key)?.badRowCount;
+        return count === undefined || count === -1 ? [] : [count];
+      }),
+      col.badRowCount,
+    ];
+    const change: ColumnChange = {
+      column: key,
+      dataType: col.DATA_TYPE,
+      before: counts[0],
+      after: col.badRowCount,
+      newRows: counts
+        .slice(1)
+        .reduce((sum, count, i) => sum + Math.max(0, count - counts[i]), 0),
+      approximate: Boolean(col.approximate || old?.approximate),
+    };
+    if (change.newRows > 0) {
+      diff.newBadRows.push(change);
+    } else if (change.before > 0 && change.after === 0) {
+      diff.fixed.push(change);
+    }
   }
+
+  diff.newBadRows.sort((a, b) => b.newRows - a.newRows);
+  return diff;
 }
 
-async function fetchBadRowsSample(
-  knex: KnexType,
-  schema: string,
-  table: string,
-  column: string,
-  limit: number = 10,
-): Promise<Record<string, unknown>[]> {
-  try {
-    const result = await knex.raw(
-      `SELECT * FROM \`${schema}\`.\`${table}\` WHERE CAST(\`${column}\` AS CHAR) LIKE '0000-00-00%' LIMIT ${limit}`,
+async function selectScanDiff(
+  config: DbConfig,
+  fromId: string | undefined,
+  toId: string | undefined,
+): Promise<ScanDiff | null> {
+  const history = listScanHistory(config);
+  const find = (id: string): ScanHistoryEntry => {
+    const entry = history.find((e) => e.id === id);
+    if (!entry) {
+      throw new Error(`Scan "${id}" not found in ${HISTORY_DIR}`);
+    }
+    return entry;
+  };
+
+  const to = toId ? find(toId) : history[0];
+  const older = to ? history.filter((e) => e.createdAt < to.createdAt) : [];
+  if (!fromId && older.length === 0) {
+    console.log(
+      chalk.yellow(
+        "\nNeed at least two scans of this connection to compare. Scan again later.\n",
+      ),
     );
-    return result[0];
-  } catch (error) {
-    return [];
+    return null;
+  }
+
+  let from: ScanHistoryEntry;
+  if (fromId) {
+    from = find(fromId);
+  } else if (!inputOptions.interactive) {
+    // Unattended runs compare with the scan just before
+    from = older[0];
+  } else {
+    from = await select<ScanHistoryEntry>({
+      message: `Compare the scan from ${formatCacheAge(to.createdAt)} with:`,
+      choices: older.map((e) => ({
+        name:
+          `${e.id}` +
+          chalk.gray(
+            ` (${e.schemas.join(", ")}, ${e.columns.length} columns, ${formatCacheAge(e.createdAt)})`,
+          ),
+        value: e,
+      })),
+    });
   }
+
+  const between = history
+    .filter((e) => e.createdAt > from.createdAt && e.createdAt < to.createdAt)
+    .reverse();
+  return diffScans(from, to, between);
 }
 
-async function fixBadRows(
-  schema: string,
-  table: string,
-  column: string,
-  knex: KnexType,
-): Promise<number> {
-  await knex.raw("SET SESSION sql_mode = ''");
+function displayScanDiff(diff: ScanDiff): void {
+  const count = (change: ColumnChange, value: number) =>
+    `${change.approximate ? "~" : ""}${value}`;
 
-  const result = await knex.raw(
-    `UPDATE \`${schema}\`.\`${table}\` SET \`${column}\` = NULL WHERE CAST(\`${column}\` AS CHAR) LIKE '0000-00-00%'`,
+  console.log(
+    chalk.cyan.bold(
+      `\n🕘 Scan ${diff.from.id} (${formatCacheAge(diff.from.createdAt)}) → ${diff.to.id} (${formatCacheAge(diff.to.createdAt)})`,
+    ),
   );
+  console.log(chalk.gray(`   Schemas compared: ${diff.schemas.join(", ")}\n`));
 
-  return result[0].affectedRows;
-}
+  if (diff.newBadRows.length > 0) {
+    console.log(
+      chalk.red.bold(
+        `🚨 New bad rows in ${diff.newBadRows.length} column(s), still being written:`,
+      ),
+    );
+    for (const change of diff.newBadRows) {
+      console.log(
+        chalk.red(
+          `   • ${change.column} ${count(change, change.before)} → ${count(change, change.after)} (+${change.newRows} new)`,
+        ),
+      );
+    }
+    console.log();
+  }
 
-async function convertTimestampToDatetime(
-  schema: string,
-  table: string,
-  column: string,
-  isNullable: "YES" | "NO",
-  columnDefault: string | null,
-  knex: KnexType,
-): Promise<void> {
-  const nullableClause = isNullable === "YES" ? "NULL" : "NOT NULL";
+  if (diff.fixed.length > 0) {
+    console.log(chalk.green.bold(`✅ Fixed ${diff.fixed.length} column(s):`));
+    for (const change of diff.fixed) {
+      console.log(
+        chalk.green(
+          `   • ${change.column} (${count(change, change.before)} → 0)`,
+        ),
+      );
+    }
+    console.log();
+  }
 
-  // Build default clause - preserve existing default if present
-  let defaultClause = "";
-  if (columnDefault !== null) {
-    // Handle common defaults
-    if (
-      columnDefault === "CURRENT_TIMESTAMP" ||
-      columnDefault === "current_timestamp()"
-    ) {
-      defaultClause = " DEFAULT CURRENT_TIMESTAMP";
-    } else if (columnDefault.toUpperCase().startsWith("CURRENT_TIMESTAMP")) {
-      // Handle CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP etc.
-      defaultClause = ` DEFAULT ${columnDefault}`;
-    } else {
-      defaultClause = ` DEFAULT '${columnDefault}'`;
+  if (diff.addedTimestamps.length > 0) {
+    console.log(
+      chalk.blue.bold(
+        `🕐 ${diff.addedTimestamps.length} new TIMESTAMP column(s):`,
+      ),
+    );
+    for (const key of diff.addedTimestamps) {
+      console.log(chalk.blue(`   • ${key}`));
     }
-  } else if (isNullable === "NO") {
-    // If NOT NULL and no default, set a sensible default
-    defaultClause = " DEFAULT CURRENT_TIMESTAMP";
+    console.log();
   }
 
-  await knex.raw(
-    `ALTER TABLE \`${schema}\`.\`${table}\` MODIFY COLUMN \`${column}\` DATETIME ${nullableClause}${defaultClause}`,
+  const otherAdded = diff.added.filter(
+    (key) => !diff.addedTimestamps.includes(key),
   );
+  if (otherAdded.length > 0 || diff.dropped.length > 0) {
+    console.log(chalk.gray("Other column changes:"));
+    for (const key of otherAdded) {
+      console.log(chalk.gray(`   + ${key}`));
+    }
+    for (const key of diff.dropped) {
+      console.log(chalk.gray(`   - ${key}`));
+    }
+    console.log();
+  }
+
+  if (
+    diff.newBadRows.length === 0 &&
+    diff.fixed.length === 0 &&
+    diff.addedTimestamps.length === 0
+  ) {
+    console.log(chalk.green("No new bad rows, fixes or TIMESTAMP columns.\n"));
+  }
+  if ([...diff.newBadRows, ...diff.fixed].some((c) => c.approximate)) {
+    console.log(
+      chalk.gray("~ Counts estimated from samples may differ by chance.\n"),
+    );
+  }
 }
 
-async function allowNullOnColumn(
-  schema: string,
-  table: string,
-  column: string,
-  dataType: "timestamp" | "datetime",
-  knex: KnexType,
-): Promise<void> {
-  await knex.raw(
-    `ALTER TABLE \`${schema}\`.\`${table}\` MODIFY COLUMN \`${column}\` ${dataType.toUpperCase()} NULL`,
-  );
+// ============== Bad Date Predicates ==============
+// Values are compared as strings so the checks behave the same regardless of
+// the session sql_mode. TIMESTAMP and YEAR columns can only hold a full zero
+// value, so partial and invalid dates are only looked for in DATE/DATETIME.
+function dateAsChar(column: string): string {
+  return `CAST(\`${column}\` AS CHAR)`;
 }
 
-async function getColumnDefaults(
-  knex: KnexType,
-  schemas: string[],
-): Promise<ColumnDefault[]> {
-  const columns = await knex("information_schema.COLUMNS")
-    .select(
-      "TABLE_SCHEMA",
-      "TABLE_NAME",
-      "COLUMN_NAME",
-      "DATA_TYPE",
-      "IS_NULLABLE",
-      "COLUMN_DEFAULT",
-      "EXTRA",
-    )
-    .whereIn("TABLE_SCHEMA", schemas)
-    .whereIn("DATA_TYPE", ["timestamp", "datetime"]);
+function parseSqlMode(value: string | null | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((flag) => flag.trim().toUpperCase())
+    .filter(Boolean);
+}
 
-  return columns;
+// Drops only the flags that reject bad dates, so the rest of the session's
+// sql_mode (ONLY_FULL_GROUP_BY, ANSI_QUOTES, ...) stays in effect. As with
+// withClearedSqlMode, the previous mode is put back before the connection
+// returns to the pool.
+async function withRelaxedSqlMode<T>(
+  knex: KnexType,
+  work: (conn: KnexType) => Promise<T>,
+): Promise<T> {
+  return knex.transaction(async (trx) => {
+    const previous = await trx.raw("SELECT @@SESSION.sql_mode AS mode");
+    const mode = parseSqlMode(previous[0][0].mode).filter(
+      (flag) => !RELAXED_SQL_MODES.includes(flag),
+    );
+    await trx.raw("SET SESSION sql_mode = ?", [mode.join(",")]);
+    try {
+      return await work(trx);
+    } finally {
+      await trx.raw("SET SESSION sql_mode = ?", [previous[0][0].mode]);
+    }
+  });
 }
 
-async function applyColumnDefault(
+// A script runs in one session, so the mode is cleared once, and again only
+// after something else has set it
+async function clearScriptSqlMode(
   knex: KnexType,
-  col: ColumnDefault,
+  script: SqlScript,
+  description: string,
 ): Promise<void> {
-  const nullableClause = col.IS_NULLABLE === "YES" ? "NULL" : "NOT NULL";
+  const lastSqlMode = [...script.statements]
+    .reverse()
+    .find((statement) => statement.sql.startsWith("SET SESSION sql_mode ="));
+  if (lastSqlMode?.sql === CLEAR_SQL_MODE) return;
+  await runStatement(knex, script, {
+    sql: CLEAR_SQL_MODE,
+    description,
+    estimatedRows: null,
+  });
+}
 
-  // Build default clause
-  let defaultClause = "";
-  if (col.COLUMN_DEFAULT !== null) {
-    const defaultVal = col.COLUMN_DEFAULT;
-    if (
-      defaultVal === "CURRENT_TIMESTAMP" ||
-      defaultVal === "current_timestamp()" ||
-      defaultVal.toUpperCase().startsWith("CURRENT_TIMESTAMP")
-    ) {
-      defaultClause = ` DEFAULT ${defaultVal}`;
-    } else {
-      defaultClause = ` DEFAULT '${defaultVal}'`;
+// Bad dates can only be matched and written with sql_mode cleared. The SET
+// runs on the connection the work uses, and the previous mode is put back
+// before that connection returns to the pool.
+async function withClearedSqlMode<T>(
+  knex: KnexType,
+  script: SqlScript | null,
+  description: string,
+  work: (conn: KnexType) => Promise<T>,
+): Promise<T> {
+  if (script) {
+    await clearScriptSqlMode(knex, script, description);
+    return work(knex);
+  }
+
+  return knex.transaction(async (trx) => {
+    const previous = await trx.raw("SELECT @@SESSION.sql_mode AS mode");
+    await trx.raw(CLEAR_SQL_MODE);
+    try {
+      return await work(trx);
+    } finally {
+      await trx.raw("SET SESSION sql_mode = ?", [previous[0][0].mode]);
     }
+  });
+}
+
+function zeroDatePredicate(column: string, dataType: DateDataType): string {
+  if (dataType === "year") {
+    return `${dateAsChar(column)} = '0000'`;
   }
+  return `${dateAsChar(column)} LIKE '0000-00-00%'`;
+}
 
-  // Handle ON UPDATE in EXTRA
-  let extraClause = "";
-  if (
-    col.EXTRA &&
-    col.EXTRA.toLowerCase().includes("on update current_timestamp")
-  ) {
-    extraClause = " ON UPDATE CURRENT_TIMESTAMP";
+function partialZeroDatePredicate(
+  column: string,
+  dataType: DateDataType,
+): string {
+  if (dataType === "year" || dataType === "timestamp") {
+    return "FALSE";
   }
+  const value = dateAsChar(column);
+  // e.g. 2019-00-15 or 2019-04-00 (allowed without NO_ZERO_IN_DATE)
+  return `(${value} NOT LIKE '0000-00-00%' AND (SUBSTRING(${value}, 6, 2) = '00' OR SUBSTRING(${value}, 9, 2) = '00'))`;
+}
 
-  const dataType = col.DATA_TYPE.toUpperCase();
+function invalidDatePredicate(column: string, dataType: DateDataType): string {
+  if (dataType === "year" || dataType === "timestamp") {
+    return "FALSE";
+  }
+  const value = dateAsChar(column);
+  // e.g. 2021-02-30 (allowed under ALLOW_INVALID_DATES)
+  return `(SUBSTRING(${value}, 6, 2) BETWEEN '01' AND '12' AND SUBSTRING(${value}, 9, 2) <> '00' AND CAST(SUBSTRING(${value}, 9, 2) AS UNSIGNED) > DAY(LAST_DAY(CONCAT(LEFT(${value}, 7), '-01'))))`;
+}
 
-  await knex.raw(
-    `ALTER TABLE \`${col.TABLE_SCHEMA}\`.\`${col.TABLE_NAME}\` MODIFY COLUMN \`${col.COLUMN_NAME}\` ${dataType} ${nullableClause}${defaultClause}${extraClause}`,
-  );
+function badDatePredicate(column: string, dataType: DateDataType): string {
+  return `(${zeroDatePredicate(column, dataType)} OR ${partialZeroDatePredicate(column, dataType)} OR ${invalidDatePredicate(column, dataType)})`;
 }
 
-// ============== Schema Selection ==============
-async function selectSchemas(knex: KnexType): Promise<string[]> {
-  const spinner = ora("Fetching available schemas...").start();
+function totalBadRows(counts: BadRowCounts): number {
+  return counts.zero + counts.partialZero + counts.invalid;
+}
 
-  const allSchemas = await getAllSchemas(knex);
+function getColumnStatus(col: ColumnInfo): ColumnStatus {
+  if (col.badRowCount === -1) return "scan_error";
+  if (col.badRowCount > 0 && col.IS_NULLABLE === "NO") {
+    return "bad_data_not_nullable";
+  }
+  if (col.badRowCount > 0) return "bad_data";
+  if (col.approximate) return "unverified";
+  if (col.DATA_TYPE === "timestamp") return "2038_risk";
+  return "ok";
+}
 
-  spinner.succeed(`Found ${allSchemas.length} schemas.`);
+// A sampled column that showed no bad rows is not known to be clean: rare
+// bad rows usually miss the sample. Fixes include it, since their UPDATEs
+// only touch rows that are actually bad.
+function mayHaveBadRows(col: ColumnInfo): boolean {
+  return col.badRowCount > 0 || col.approximate === true;
+}
 
-  if (allSchemas.length === 0) {
-    console.log(chalk.red("\nNo accessible schemas found!\n"));
-    process.exit(1);
+// "1234", or "~1234 (95% CI 900-1600)" for a sampled column
+function formatBadRowCount(col: ColumnInfo): string {
+  if (!col.approximate) return String(col.badRowCount);
+  const interval = col.badRowInterval
+    ? ` (95% CI ${col.badRowInterval[0]}-${col.badRowInterval[1]})`
+    : "";
+  return `~${col.badRowCount}${interval}`;
+}
+
+function getBadDateLabels(col: ColumnInfo): string[] {
+  const labels: string[] = [];
+  if (col.badRowCounts.zero > 0) labels.push("Zero dates");
+  if (col.badRowCounts.partialZero > 0) labels.push("Partial zero dates");
+  if (col.badRowCounts.invalid > 0) labels.push("Invalid dates");
+  return labels;
+}
+
+// ============== Replacement Values ==============
+// Parses "<schema.table.column pattern>=<strategy>" where strategy is null,
+// default, column:<name> or literal:<value>
+function parseReplaceRule(
+  value: string,
+  previous: ReplaceRule[] = [],
+): ReplaceRule[] {
+  const separator = value.indexOf("=");
+  if (separator <= 0) {
+    throw new InvalidArgumentError(
+      'Expected "<schema.table.column>=<null|default|column:name|literal:value>".',
+    );
   }
+  return [
+    ...previous,
+    {
+      pattern: value.slice(0, separator).trim(),
+      strategy: parseReplaceStrategy(value.slice(separator + 1).trim()),
+    },
+  ];
+}
 
-  const selected = await checkbox({
-    message: "Select schemas to scan:",
-    choices: allSchemas.map((schema) => ({
-      name: schema,
-      value: schema,
-      checked: true,
-    })),
-    required: true,
-  });
+function parseReplaceStrategy(spec: string): ReplaceStrategy {
+  if (spec === "null") {
+    return { kind: "null" };
+  }
+  if (spec === "default") {
+    return { kind: "default" };
+  }
+  if (spec.startsWith("column:") && spec.length > 7) {
+    return { kind: "column", column: spec.slice(7) };
+  }
+  if (spec.startsWith("literal:") && spec.length > 8) {
+    return { kind: "literal", value: spec.slice(8) };
+  }
+  throw new InvalidArgumentError(
+    `Unknown replacement "${spec}". Use null, default, column:<name> or literal:<value>.`,
+  );
+}
 
-  return selected;
+function describeReplaceStrategy(strategy: ReplaceStrategy | null): string {
+  if (!strategy) return "skip";
+  switch (strategy.kind) {
+    case "null":
+      return "NULL";
+    case "literal":
+      return quoteSqlString(strategy.value);
+    case "default":
+      return "column default";
+    case "column":
+      return `value of \`${strategy.column}\``;
+  }
 }
 
-// ============== Scanning Logic ==============
-async function scanSchemas(
-  knex: KnexType,
-  schemas: string[],
-): Promise<ColumnInfo[]> {
-  const spinner = ora("Fetching date columns...").start();
+// Rules win; otherwise nullable columns get NULL and NOT NULL columns are
+// skipped until a replacement is chosen
+function getDefaultReplaceStrategy(
+  col: ColumnInfo,
+  rules: ReplaceRule[],
+): ReplaceStrategy | null {
+  const name = `${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME}`;
+  const rule = rules.find((r) => matchesPattern(name, r.pattern));
+  if (rule) return rule.strategy;
+  return col.IS_NULLABLE === "YES" ? { kind: "null" } : null;
+}
 
-  try {
-    const columns = await getDateColumns(knex, schemas);
-    spinner.text = `Found ${columns.length} date columns. Scanning for bad data...`;
+// Returns an error message, or null when the literal is a real date
+function validateReplacementLiteral(
+  value: string,
+  dataType: DateDataType,
+): string | null {
+  if (dataType === "year") {
+    return /^\d{4}$/.test(value) && value !== "0000"
+      ? null
+      : "Expected a four-digit year other than 0000.";
+  }
+
+  const match = value.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?: (\d{2}):(\d{2}):(\d{2})(?:\.\d{1,6})?)?$/,
+  );
+  if (!match) {
+    return "Expected YYYY-MM-DD or YYYY-MM-DD HH:MM:SS.";
+  }
+  const [year, month, day] = match.slice(1, 4).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    year === 0 ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day ||
+    Number(match[4] ?? 0) > 23 ||
+    Number(match[5] ?? 0) > 59 ||
+    Number(match[6] ?? 0) > 59
+  ) {
+    return `${value} is not a valid date.`;
+  }
+  const stamp = `${match[1]}-${match[2]}-${match[3]} ${match[4] ?? "00"}:${match[5] ?? "00"}:${match[6] ?? "00"}`;
+  if (
+    dataType === "timestamp" &&
+    (stamp < TIMESTAMP_RANGE[0] || stamp > TIMESTAMP_RANGE[1])
+  ) {
+    return `TIMESTAMP values must be between ${TIMESTAMP_RANGE[0]} and ${TIMESTAMP_RANGE[1]}.`;
+  }
+  return null;
+}
 
-    const results: ColumnInfo[] = [];
-    let scanned = 0;
+// YEAR only holds years; the other date types convert into each other
+function isCompatibleDateType(target: string, source: string): boolean {
+  if (!DATE_DATA_TYPES.includes(source as DateDataType)) return false;
+  return (target === "year") === (source === "year");
+}
+
+// Turns a strategy into the SQL expression for the SET clause. A
+// CURRENT_TIMESTAMP default is evaluated once, so every row (and the undo
+// guard) sees the same value.
+async function resolveReplacement(
+  knex: KnexType,
+  col: ColumnInfo,
+  strategy: ReplaceStrategy,
+): Promise<Replacement> {
+  const name = `${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME}`;
+
+  switch (strategy.kind) {
+    case "null":
+      if (col.IS_NULLABLE === "NO") {
+        throw new Error(`${name} is NOT NULL and cannot be set to NULL`);
+      }
+      return NULL_REPLACEMENT;
 
-    for (const col of columns) {
-      scanned++;
-      spinner.text = `[${scanned}/${columns.length}] Scanning ${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME}...`;
+    case "literal": {
+      const error = validateReplacementLiteral(strategy.value, col.DATA_TYPE);
+      if (error) {
+        throw new Error(`Invalid replacement for ${name}: ${error}`);
+      }
+      return { expression: quoteSqlString(strategy.value), condition: null };
+    }
 
-      const badCount = await countBadRows(
+    case "default": {
+      const definitions = await readColumnDefinitions(
         knex,
         col.TABLE_SCHEMA,
         col.TABLE_NAME,
-        col.COLUMN_NAME,
+        [col.COLUMN_NAME],
       );
-
-      results.push({
-        ...col,
-        badRowCount: badCount,
-      });
+      const expression = columnDefaultExpression(
+        definitions.get(col.COLUMN_NAME)!,
+      );
+      if (expression === null || expression === "NULL") {
+        if (col.IS_NULLABLE === "NO") {
+          throw new Error(`${name} has no default to replace bad dates with`);
+        }
+        return NULL_REPLACEMENT;
+      }
+      if (/^current_timestamp/i.test(expression)) {
+        const result = await knex.raw(`SELECT ${expression} AS now`);
+        return {
+          expression: quoteSqlString(String(result[0][0].now)),
+          condition: null,
+        };
+      }
+      return { expression, condition: null };
     }
 
-    spinner.succeed(
-      `Scanned ${columns.length} columns across ${schemas.length} schema(s).`,
-    );
-    return results;
-  } catch (error) {
-    spinner.fail("Failed to scan schemas.");
-    throw error;
+    case "column": {
+      // Throws when the column does not exist in the same table
+      const definitions = await readColumnDefinitions(
+        knex,
+        col.TABLE_SCHEMA,
+        col.TABLE_NAME,
+        [strategy.column],
+      );
+      const sourceType = definitions.get(strategy.column)!.dataType;
+      if (!isCompatibleDateType(col.DATA_TYPE, sourceType)) {
+        throw new Error(
+          `${name} cannot be copied from ${strategy.column} (${sourceType} into ${col.DATA_TYPE})`,
+        );
+      }
+
+      // Under the relaxed sql_mode a NULL, bad or out-of-range source would
+      // be written as a zero date again, so those rows are left as they are
+      const source = `\`${strategy.column}\``;
+      const conditions = [
+        `${source} IS NOT NULL`,
+        `NOT ${badDatePredicate(strategy.column, sourceType as DateDataType)}`,
+      ];
+      if (col.DATA_TYPE === "timestamp" && sourceType !== "timestamp") {
+        conditions.push(
+          `${source} BETWEEN ${quoteSqlString(TIMESTAMP_RANGE[0])} AND ${quoteSqlString(TIMESTAMP_RANGE[1])}`,
+        );
+      }
+      return {
+        expression: source,
+        condition: `(${conditions.join(" AND ")})`,
+      };
+    }
   }
 }
 
-async function rescanColumns(
-  knex: KnexType,
-  existingColumns: ColumnInfo[],
-  affectedColumns: ColumnInfo[],
-): Promise<ColumnInfo[]> {
-  if (affectedColumns.length === 0) {
-    return existingColumns;
-  }
+async function promptReplaceStrategy(
+  col: ColumnInfo,
+  columns: ColumnInfo[],
+  current: ReplaceStrategy | null,
+): Promise<ReplaceStrategy | null> {
+  const siblings = columns.filter(
+    (c) =>
+      c.TABLE_SCHEMA === col.TABLE_SCHEMA &&
+      c.TABLE_NAME === col.TABLE_NAME &&
+      c.COLUMN_NAME !== col.COLUMN_NAME &&
+      isCompatibleDateType(col.DATA_TYPE, c.DATA_TYPE),
+  );
 
-  const spinner = ora(
-    `Rescanning ${affectedColumns.length} affected column(s)...`,
-  ).start();
+  const choice = await select<ReplaceStrategy["kind"] | "skip">({
+    message: `Replace bad dates in ${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME} with (currently ${describeReplaceStrategy(current)}):`,
+    choices: [
+      {
+        name: "NULL",
+        value: "null",
+        disabled: col.IS_NULLABLE === "NO" ? "NOT NULL column" : false,
+      },
+      {
+        name: `Column default${col.COLUMN_DEFAULT !== null ? chalk.gray(` (${col.COLUMN_DEFAULT})`) : ""}`,
+        value: "default",
+        disabled:
+          col.COLUMN_DEFAULT === null && col.IS_NULLABLE === "NO"
+            ? "no default"
+            : false,
+      },
+      { name: "A fixed value...", value: "literal" },
+      {
+        name: "Another column in the same row...",
+        value: "column",
+        disabled: siblings.length === 0 ? "no other date columns" : false,
+      },
+      { name: "Skip this column", value: "skip" },
+    ],
+  });
 
-  const affectedKeys = new Set(
-    affectedColumns.map(
-      (c) => `${c.TABLE_SCHEMA}.${c.TABLE_NAME}.${c.COLUMN_NAME}`,
-    ),
-  );
+  switch (choice) {
+    case "null":
+    case "default":
+      return { kind: choice };
+    case "literal":
+      return {
+        kind: "literal",
+        value: await input({
+          message: "Replacement value:",
+          default:
+            col.DATA_TYPE === "year"
+              ? "1970"
+              : col.DATA_TYPE === "date"
+                ? "1970-01-01"
+                : "1970-01-01 00:00:01",
+          validate: (value) =>
+            validateReplacementLiteral(value, col.DATA_TYPE) ?? true,
+        }),
+      };
+    case "column":
+      return {
+        kind: "column",
+        column: await select({
+          message: "Copy the value from:",
+          choices: siblings.map((c) => ({
+            name: `${c.COLUMN_NAME} ${chalk.gray(`(${c.DATA_TYPE})`)}`,
+            value: c.COLUMN_NAME,
+          })),
+        }),
+      };
+    case "skip":
+      return null;
+  }
+}
 
-  const updatedColumns: ColumnInfo[] = [];
-  let rescanned = 0;
+// ============== Backup Functions ==============
+function getBackupDir(): string {
+  return path.resolve(process.cwd(), BACKUP_DIR);
+}
 
-  for (const col of existingColumns) {
-    const key = `${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME}`;
+function createBackup(config: DbConfig): BackupFile {
+  const createdAt = new Date().toISOString();
+  return {
+    id: createdAt.replace(/[:.]/g, "-"),
+    createdAt,
+    restoredAt: null,
+    connection: getConnectionKey(config),
+    columns: [],
+  };
+}
 
-    if (affectedKeys.has(key)) {
-      rescanned++;
-      spinner.text = `[${rescanned}/${affectedColumns.length}] Rescanning ${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME}...`;
+function saveBackup(backup: BackupFile): string {
+  const backupDir = getBackupDir();
+  fs.mkdirSync(backupDir, { recursive: true });
+  const backupPath = path.join(backupDir, `${backup.id}.json`);
+  fs.writeFileSync(backupPath, JSON.stringify(backup, null, 2), "utf-8");
+  return backupPath;
+}
 
-      // Re-fetch column info from information_schema for updated nullability
-      const colInfo = await knex("information_schema.COLUMNS")
-        .select("IS_NULLABLE", "DATA_TYPE")
-        .where({
-          TABLE_SCHEMA: col.TABLE_SCHEMA,
-          TABLE_NAME: col.TABLE_NAME,
-          COLUMN_NAME: col.COLUMN_NAME,
-        })
-        .first();
+// Rows are appended to the column's JSONL file batch by batch, so a fix over
+// millions of rows never holds them in memory or rewrites earlier batches.
+function appendBackupRows(
+  backup: BackupFile,
+  entry: ColumnBackup,
+  rows: BackupRow[],
+): void {
+  const backupDir = getBackupDir();
+  fs.mkdirSync(backupDir, { recursive: true });
+  if (rows.length > 0) {
+    fs.appendFileSync(
+      path.join(backupDir, entry.rowsFile),
+      rows.map((row) => `${JSON.stringify(row)}\n`).join(""),
+      "utf-8",
+    );
+  }
+  entry.rowCount += rows.length;
+  saveBackup(backup);
+}
 
-      const badCount = await countBadRows(
-        knex,
-        col.TABLE_SCHEMA,
-        col.TABLE_NAME,
-        col.COLUMN_NAME,
-      );
+async function* readBackupRows(entry: ColumnBackup): AsyncGenerator<BackupRow> {
+  const rowsPath = path.join(getBackupDir(), entry.rowsFile);
+  if (!fs.existsSync(rowsPath)) return;
 
-      updatedColumns.push({
-        ...col,
-        IS_NULLABLE: colInfo?.IS_NULLABLE ?? col.IS_NULLABLE,
-        DATA_TYPE: colInfo?.DATA_TYPE ?? col.DATA_TYPE,
-        badRowCount: badCount,
-      });
-    } else {
-      updatedColumns.push(col);
+  const lines = readline.createInterface({
+    input: fs.createReadStream(rowsPath, "utf-8"),
+    crlfDelay: Infinity,
+  });
+  for await (const line of lines) {
+    if (line.trim()) yield JSON.parse(line) as BackupRow;
+  }
+}
+
+// Newest first, limited to files written for the current connection
+function listConnectionFiles<
+  T extends { createdAt: string; connection: ConnectionKey },
+>(dir: string, config: DbConfig): T[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const entries: T[] = [];
+  for (const file of fs.readdirSync(dir)) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      const entry = JSON.parse(
+        fs.readFileSync(path.join(dir, file), "utf-8"),
+      ) as T;
+      if (isSameConnection(entry.connection, config)) {
+        entries.push(entry);
+      }
+    } catch {
+      // Ignore unreadable files
     }
   }
 
-  spinner.succeed(`Rescanned ${affectedColumns.length} column(s).`);
-  return updatedColumns;
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
 }
 
-// ============== Display Functions ==============
-function displayResults(columns: ColumnInfo[]): void {
-  // Group by schema
-  const bySchema = columns.reduce(
-    (acc, col) => {
-      if (!acc[col.TABLE_SCHEMA]) {
-        acc[col.TABLE_SCHEMA] = [];
-      }
-      acc[col.TABLE_SCHEMA].push(col);
-      return acc;
-    },
-    {} as Record<string, ColumnInfo[]>,
-  );
+function listBackups(config: DbConfig): BackupFile[] {
+  return listConnectionFiles<BackupFile>(getBackupDir(), config);
+}
 
-  for (const [schema, schemaCols] of Object.entries(bySchema)) {
-    const badCount = schemaCols.filter((c) => c.badRowCount > 0).length;
-    const timestampCount = schemaCols.filter(
-      (c) => c.DATA_TYPE === "timestamp",
-    ).length;
+async function getPrimaryKeyColumns(
+  knex: KnexType,
+  schema: string,
+  table: string,
+): Promise<string[]> {
+  const rows = await knex("information_schema.KEY_COLUMN_USAGE")
+    .select("COLUMN_NAME")
+    .where({
+      TABLE_SCHEMA: schema,
+      TABLE_NAME: table,
+      CONSTRAINT_NAME: "PRIMARY",
+    })
+    .orderBy("ORDINAL_POSITION");
+
+  return rows.map((row: { COLUMN_NAME: string }) => row.COLUMN_NAME);
+}
 
-    console.log(
-      "\n" +
-        chalk.cyan.bold(`📁 ${schema}`) +
-        chalk.gray(
-          ` (${schemaCols.length} columns, ${badCount} with bad data, ${timestampCount} timestamps)`,
-        ),
-    );
-    console.log(chalk.bold("─".repeat(100)));
-    console.log(
-      chalk.bold(
-        "  Table.Column".padEnd(45) +
-          "Type".padEnd(12) +
-          "Nullable".padEnd(10) +
-          "Bad Rows".padEnd(12) +
-          "Status",
-      ),
-    );
-    console.log(chalk.bold("─".repeat(100)));
+async function captureBadRows(
+  knex: KnexType,
+  schema: string,
+  table: string,
+  column: string,
+  dataType: DateDataType,
+  primaryKey: string[],
+  range: SqlCondition[] = [],
+): Promise<BackupRow[]> {
+  // Locking read: inside the caller's transaction no row in the range can
+  // turn bad between the backup and the UPDATE that follows it
+  const keyColumns = primaryKey.map((k) => `\`${k}\``).join(", ");
+  const conditions = [
+    ...range.map((r) => r.sql),
+    badDatePredicate(column, dataType),
+  ];
+  const result = await knex.raw(
+    `SELECT ${keyColumns}, ${dateAsChar(column)} AS __original FROM \`${schema}\`.\`${table}\` WHERE ${conditions.join(" AND ")} FOR UPDATE`,
+    range.flatMap((r) => r.bindings),
+  );
 
-    for (const col of schemaCols) {
-      const name = `${col.TABLE_NAME}.${col.COLUMN_NAME}`.padEnd(45);
-      const type = col.DATA_TYPE.padEnd(12);
-      const nullable = col.IS_NULLABLE.padEnd(10);
-      const badRows =
-        col.badRowCount === -1
-          ? "ERROR".padEnd(12)
-          : String(col.badRowCount).padEnd(12);
+  return result[0].map((row: Record<string, unknown>) => {
+    const { __original, ...key } = row;
+    return { key, value: String(__original) };
+  });
+}
 
-      let status = chalk.green("✓ OK");
-      if (col.badRowCount === -1) {
-        status = chalk.red("✗ Could not scan");
-      } else if (col.badRowCount > 0 && col.IS_NULLABLE === "NO") {
-        status = chalk.red("⚠ Bad data, NOT NULLABLE");
-      } else if (col.badRowCount > 0) {
-        status = chalk.yellow("⚠ Has bad data");
-      } else if (col.DATA_TYPE === "timestamp") {
-        status = chalk.blue("◐ 2038 risk");
-      }
+// Only rows still holding the replacement value the fix wrote (NULL, a
+// literal, CURRENT_TIMESTAMP or a source column) are restored, so values
+// written since the fix survive.
+// The fix wrote its rows in key order, so they go back in key-ordered chunks
+// of the batch size, each in its own short transaction.
+async function restoreColumnBackup(
+  knex: KnexType,
+  entry: ColumnBackup,
+  batch: BatchOptions = DEFAULT_BATCH_OPTIONS,
+  script: SqlScript | null = null,
+): Promise<number> {
+  const restoreChunk = (rows: BackupRow[]) =>
+    withClearedSqlMode(
+      knex,
+      script,
+      "Clear sql_mode so bad dates can be written back",
+      async (conn) => {
+        let restored = 0;
+        for (const row of rows) {
+          const keyClause = entry.primaryKey
+            .map((k) => `\`${k}\` = ?`)
+            .join(" AND ");
+          const sql = conn
+            .raw(
+              `UPDATE \`${entry.schema}\`.\`${entry.table}\` SET \`${entry.column}\` = ? WHERE ${keyClause} AND \`${entry.column}\` <=> ${entry.replacement ?? "NULL"}`,
+              [row.value, ...entry.primaryKey.map((k) => row.key[k])],
+            )
+            .toString();
+          restored += await runStatement(conn, script, {
+            sql,
+            description: `Restore ${entry.schema}.${entry.table}.${entry.column} for ${JSON.stringify(row.key)}`,
+            estimatedRows: 1,
+          });
+        }
+        return restored;
+      },
+    );
 
-      console.log(`  ${name}${type}${nullable}${badRows}${status}`);
+  let restored = 0;
+  let chunk: BackupRow[] = [];
+  for await (const row of readBackupRows(entry)) {
+    chunk.push(row);
+    if (chunk.length < batch.size) continue;
+    restored += await restoreChunk(chunk);
+    chunk = [];
+    if (batch.sleepMs > 0 && !script) {
+      await sleep(batch.sleepMs);
     }
   }
+  if (chunk.length > 0) {
+    restored += await restoreChunk(chunk);
+  }
+  return restored;
+}
 
-  console.log();
+// ============== Column Definitions ==============
+function quoteSqlString(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "''")}'`;
 }
 
-function displaySummary(columns: ColumnInfo[], schemas: string[]): void {
-  const totalBad = columns.filter((c) => c.badRowCount > 0).length;
-  const totalTimestamps = columns.filter(
-    (c) => c.DATA_TYPE === "timestamp",
-  ).length;
-  const totalUnfixable = columns.filter(
-    (c) => c.badRowCount > 0 && c.IS_NULLABLE === "NO",
-  ).length;
-  const totalFixable = columns.filter(
-    (c) => c.badRowCount > 0 && c.IS_NULLABLE === "YES",
-  ).length;
+function parseColumnDefinition(row: Record<string, unknown>): ColumnDefinition {
+  const extra = String(row.EXTRA ?? "");
+  const onUpdate = extra.match(/on update (current_timestamp(\(\d*\))?)/i);
+  const generated = extra.match(/\b(VIRTUAL|STORED|PERSISTENT) GENERATED\b/i);
+  const precision = row.DATETIME_PRECISION;
 
-  console.log(chalk.bold("\n📊 Summary"));
-  console.log(chalk.gray("─".repeat(40)));
-  console.log(`   Schemas:        ${chalk.cyan(schemas.length)}`);
-  console.log(`   Total Columns:  ${chalk.cyan(columns.length)}`);
-  console.log(
-    `   Timestamps:     ${chalk.blue(totalTimestamps)} ${chalk.gray("(2038 risk)")}`,
-  );
-  console.log(
-    `   Bad Data:       ${totalBad > 0 ? chalk.yellow(totalBad) : chalk.green(totalBad)}`,
-  );
-  console.log(
-    `   ├─ Fixable:     ${totalFixable > 0 ? chalk.yellow(totalFixable) : chalk.green(totalFixable)}`,
-  );
-  console.log(
-    `   └─ Unfixable:   ${totalUnfixable > 0 ? chalk.red(totalUnfixable) : chalk.green(totalUnfixable)}`,
-  );
-  console.log();
+  return {
+    schema: String(row.TABLE_SCHEMA),
+    table: String(row.TABLE_NAME),
+    column: String(row.COLUMN_NAME),
+    dataType: String(row.DATA_TYPE),
+    columnType: String(row.COLUMN_TYPE),
+    precision:
+      precision === null || precision === undefined ? null : Number(precision),
+    nullable: row.IS_NULLABLE === "YES",
+    columnDefault: (row.COLUMN_DEFAULT as string | null | undefined) ?? null,
+    defaultGenerated: /DEFAULT_GENERATED/i.test(extra),
+    onUpdate: onUpdate ? onUpdate[1].toUpperCase() : null,
+    generated: generated
+      ? {
+          expression: String(row.GENERATION_EXPRESSION ?? ""),
+          stored: generated[1].toUpperCase() !== "VIRTUAL",
+        }
+      : null,
+    invisible: /\bINVISIBLE\b/i.test(extra),
+    characterSet: (row.CHARACTER_SET_NAME as string | null | undefined) ?? null,
+    collation: (row.COLLATION_NAME as string | null | undefined) ?? null,
+    comment: String(row.COLUMN_COMMENT ?? ""),
+  };
 }
 
-function displayUnfixable(columns: ColumnInfo[]): void {
-  const unfixable = columns.filter(
-    (c) => c.badRowCount > 0 && c.IS_NULLABLE === "NO",
-  );
+// Covers MySQL (unquoted literals, DEFAULT_GENERATED) and MariaDB (quoted
+// literals, 'NULL', bare function calls) conventions for COLUMN_DEFAULT.
+function columnDefaultExpression(definition: ColumnDefinition): string | null {
+  const columnDefault = definition.columnDefault;
+  if (columnDefault === null) return null;
 
-  if (unfixable.length === 0) {
-    console.log(chalk.green("\n✓ No unfixable columns!\n"));
-    return;
+  if (columnDefault === "NULL") {
+    return "NULL";
   }
-
-  console.log(
-    chalk.red(
-      "\n⚠️  The following columns have bad data but do NOT allow NULL:",
-    ),
-  );
-  console.log(
-    chalk.red(
-      "   You must either change the column to allow NULL, or provide a default value.\n",
-    ),
-  );
-
-  for (const col of unfixable) {
-    console.log(
-      chalk.red(
-        `   • ${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME}`,
-      ) + chalk.gray(` (${col.badRowCount} bad rows)`),
-    );
+  if (
+    /^current_timestamp/i.test(columnDefault) ||
+    columnDefault.startsWith("'")
+  ) {
+    return columnDefault;
+  }
+  if (definition.defaultGenerated || /^\w+\(.*\)$/.test(columnDefault)) {
+    return `(${columnDefault})`;
   }
+  return quoteSqlString(columnDefault);
+}
 
-  console.log();
+function renderColumnDefault(definition: ColumnDefinition): string | null {
+  const expression = columnDefaultExpression(definition);
+  return expression === null ? null : `DEFAULT ${expression}`;
 }
 
-// ============== TUI Menus ==============
-function groupBySchemaAndTable(
-  columns: ColumnInfo[],
-): Map<string, Map<string, ColumnInfo[]>> {
-  const result = new Map<string, Map<string, ColumnInfo[]>>();
+function renderColumnDefinition(definition: ColumnDefinition): string {
+  const parts = [definition.columnType];
 
-  for (const col of columns) {
-    if (!result.has(col.TABLE_SCHEMA)) {
-      result.set(col.TABLE_SCHEMA, new Map());
-    }
-    const schemaMap = result.get(col.TABLE_SCHEMA)!;
-    if (!schemaMap.has(col.TABLE_NAME)) {
-      schemaMap.set(col.TABLE_NAME, []);
-    }
-    schemaMap.get(col.TABLE_NAME)!.push(col);
+  if (definition.characterSet) {
+    parts.push(`CHARACTER SET ${definition.characterSet}`);
+  }
+  if (definition.collation) {
+    parts.push(`COLLATE ${definition.collation}`);
   }
 
-  return result;
-}
+  if (definition.generated) {
+    parts.push(
+      `GENERATED ALWAYS AS (${definition.generated.expression})`,
+      definition.generated.stored ? "STORED" : "VIRTUAL",
+    );
+  }
 
-// Symbol to indicate user cancelled
-const CANCELLED = Symbol("cancelled");
+  parts.push(definition.nullable ? "NULL" : "NOT NULL");
 
-async function selectTablesGrouped(
-  columns: ColumnInfo[],
-  filterFn: (col: ColumnInfo) => boolean,
-  message: string,
-  getDescription: (cols: ColumnInfo[]) => string,
-): Promise<TableSelection[] | typeof CANCELLED> {
-  const filtered = columns.filter(filterFn);
+  if (!definition.generated) {
+    const defaultClause = renderColumnDefault(definition);
+    if (defaultClause) parts.push(defaultClause);
+    if (definition.onUpdate) parts.push(`ON UPDATE ${definition.onUpdate}`);
+  }
 
-  if (filtered.length === 0) {
-    console.log(chalk.yellow("\nNo matching columns found.\n"));
-    return [];
+  if (definition.invisible) {
+    parts.push("INVISIBLE");
   }
 
-  const grouped = groupBySchemaAndTable(filtered);
+  if (definition.comment) {
+    parts.push(`COMMENT ${quoteSqlString(definition.comment)}`);
+  }
 
-  // Build choices with schema separators
-  type TableValue = { schema: string; table: string };
-  const choices: Array<
-    { name: string; value: TableValue; checked: boolean } | Separator
-  > = [];
+  return parts.join(" ");
+}
 
-  for (const [schema, tables] of grouped) {
-    const schemaColCount = Array.from(tables.values()).flat().length;
-    choices.push(
-      new Separator(
-        chalk.cyan.bold(`📁 ${schema}`) +
-          chalk.gray(` (${schemaColCount} columns in ${tables.size} tables)`),
-      ),
-    );
+function modifyColumnClause(definition: ColumnDefinition): string {
+  return `MODIFY COLUMN \`${definition.column}\` ${renderColumnDefinition(definition)}`;
+}
 
-    for (const [table, cols] of tables) {
-      const desc = getDescription(cols);
-      choices.push({
-        name: `   ${table}` + chalk.gray(` ${desc}`),
-        value: { schema, table },
-        checked: true,
-      });
+// Swaps the temporal type while keeping fractional-second precision
+function withDataType(
+  definition: ColumnDefinition,
+  dataType: DateDataType,
+): ColumnDefinition {
+  const precision =
+    definition.precision && dataType !== "date" && dataType !== "year"
+      ? `(${definition.precision})`
+      : "";
+  return { ...definition, columnType: `${dataType}${precision}` };
+}
+
+async function readColumnDefinitions(
+  knex: KnexType,
+  schema: string,
+  table: string,
+  columns: string[],
+): Promise<Map<string, ColumnDefinition>> {
+  const rows = await knex("information_schema.COLUMNS")
+    .select("*")
+    .where({ TABLE_SCHEMA: schema, TABLE_NAME: table })
+    .whereIn("COLUMN_NAME", columns);
+
+  const definitions = new Map<string, ColumnDefinition>();
+  for (const row of rows) {
+    definitions.set(row.COLUMN_NAME, parseColumnDefinition(row));
+  }
+  for (const column of columns) {
+    if (!definitions.has(column)) {
+      throw new Error(`Column ${schema}.${table}.${column} not found`);
     }
   }
+  return definitions;
+}
 
-  const selection = await checkbox<TableValue>({
-    message,
-    choices,
-  });
+// ============== Run Journal ==============
+// Each ALTER-based run records the column definitions it is about to change,
+// so the rollback action can put them back exactly as they were.
+function getRunDir(): string {
+  return path.resolve(process.cwd(), RUN_DIR);
+}
 
-  if (selection.length === 0) {
-    const confirmEmpty = await select<"proceed" | "cancel">({
-      message: "No tables selected. What would you like to do?",
-      choices: [
-        { name: "❌ Cancel and go back", value: "cancel" },
-        { name: "✅ Proceed anyway (no changes)", value: "proceed" },
-      ],
-    });
-    if (confirmEmpty === "cancel") {
-      return CANCELLED;
-    }
-  }
+function createRunJournal(
+  config: DbConfig,
+  action: string,
+  plan: string | null = null,
+): RunJournal {
+  const createdAt = new Date().toISOString();
+  return {
+    id: createdAt.replace(/[:.]/g, "-"),
+    action,
+    plan,
+    createdAt,
+    finishedAt: null,
+    rolledBackAt: null,
+    connection: getConnectionKey(config),
+    snapshots: [],
+    steps: [],
+  };
+}
 
-  return selection;
+function saveRunJournal(journal: RunJournal): string {
+  const runDir = getRunDir();
+  fs.mkdirSync(runDir, { recursive: true });
+  const journalPath = path.join(runDir, `${journal.id}.json`);
+  fs.writeFileSync(journalPath, JSON.stringify(journal, null, 2), "utf-8");
+  return journalPath;
 }
 
-async function selectAction(columns: ColumnInfo[]): Promise<Action> {
-  const fixableCount = columns.filter(
-    (c) => c.badRowCount > 0 && c.IS_NULLABLE === "YES",
-  ).length;
-  const unfixableCount = columns.filter(
-    (c) => c.badRowCount > 0 && c.IS_NULLABLE === "NO",
-  ).length;
-  const timestampCount = columns.filter(
-    (c) => c.DATA_TYPE === "timestamp",
-  ).length;
-  const hasCache = columns.length > 0;
+function listRunJournals(config: DbConfig): RunJournal[] {
+  return listConnectionFiles<RunJournal>(getRunDir(), config);
+}
 
-  const choices: {
-    name: string;
-    value: Action;
-    disabled?: boolean | string;
-  }[] = [
+async function snapshotColumn(
+  knex: KnexType,
+  schema: string,
+  table: string,
+  column: string,
+): Promise<ColumnSnapshot> {
+  const definition = await knex("information_schema.COLUMNS")
+    .select("*")
+    .where({ TABLE_SCHEMA: schema, TABLE_NAME: table, COLUMN_NAME: column })
+    .first();
+  if (!definition) {
+    throw new Error(`Column ${schema}.${table}.${column} not found`);
+  }
+
+  return { schema, table, column, definition };
+}
+
+// Snapshots are persisted before the ALTER runs, so a crash mid-run still
+// leaves enough behind to roll back.
+async function recordSnapshot(
+  knex: KnexType,
+  journal: RunJournal | null,
+  schema: string,
+  table: string,
+  column: string,
+): Promise<void> {
+  if (!journal) return;
+  journal.snapshots.push(await snapshotColumn(knex, schema, table, column));
+  saveRunJournal(journal);
+}
+
+function announceRunJournal(journal: RunJournal | null): void {
+  if (!journal) return;
+  if (journal.snapshots.length > 0) {
+    console.log(
+      chalk.gray(
+        `\n🗂  Original column definitions saved as run ${journal.id} (revert with the rollback action)`,
+      ),
+    );
+  }
+  const unfinished = getUnfinishedSteps(journal).length;
+  if (unfinished > 0) {
+    console.log(
+      chalk.yellow(
+        `\n⏯  ${unfinished} step(s) of run ${journal.id} did not finish (continue with the resume action)`,
+      ),
+    );
+  }
+  console.log();
+}
+
+function getUnfinishedSteps(journal: RunJournal): RunStep[] {
+  return (journal.steps ?? []).filter((step) => step.status !== "done");
+}
+
+// A step re-planned by a resumed run replaces its unfinished predecessor
+// instead of being recorded twice
+function addRunStep(
+  journal: RunJournal | null,
+  step: Pick<RunStep, "kind" | "schema" | "table" | "columns"> &
+    Partial<Pick<RunStep, "timeZone" | "strategy">>,
+): RunStep | null {
+  if (!journal) return null;
+  journal.steps ??= [];
+
+  const sameColumns = (s: RunStep) =>
+    step.kind === "fix" ? s.columns[0] === step.columns[0] : true;
+  const existing = journal.steps.find(
+    (s) =>
+      s.status !== "done" &&
+      s.kind === step.kind &&
+      s.schema === step.schema &&
+      s.table === step.table &&
+      sameColumns(s),
+  );
+  if (existing) {
+    Object.assign(existing, step, { status: "pending", error: null });
+    saveRunJournal(journal);
+    return existing;
+  }
+
+  const added: RunStep = {
+    ...step,
+    status: "pending",
+    startedAt: null,
+    finishedAt: null,
+    affectedRows: null,
+    error: null,
+  };
+  journal.steps.push(added);
+  saveRunJournal(journal);
+  return added;
+}
+
+function updateRunStep(
+  journal: RunJournal | null,
+  step: RunStep | null,
+  update: Partial<RunStep>,
+): void {
+  if (!journal || !step) return;
+  Object.assign(step, update);
+  journal.finishedAt =
+    getUnfinishedSteps(journal).length === 0 ? new Date().toISOString() : null;
+  saveRunJournal(journal);
+}
+
+function startRunStep(journal: RunJournal | null, step: RunStep | null): void {
+  updateRunStep(journal, step, {
+    status: "running",
+    startedAt: new Date().toISOString(),
+  });
+}
+
+function finishRunStep(
+  journal: RunJournal | null,
+  step: RunStep | null,
+  affectedRows: number,
+): void {
+  updateRunStep(journal, step, {
+    status: "done",
+    finishedAt: new Date().toISOString(),
+    affectedRows: (step?.affectedRows ?? 0) + affectedRows,
+  });
+}
+
+function failRunStep(
+  journal: RunJournal | null,
+  step: RunStep | null,
+  error: unknown,
+): void {
+  updateRunStep(journal, step, {
+    status: "failed",
+    finishedAt: new Date().toISOString(),
+    error: error instanceof Error ? error.message : String(error),
+  });
+}
+
+// All snapshots of one table go into a single ALTER, so the table is rebuilt
+// once; its strongest change decides the locking
+async function restoreTableSnapshots(
+  knex: KnexType,
+  snapshots: ColumnSnapshot[],
+  kinds: AlterKind[],
+  script: SqlScript | null = null,
+): Promise<void> {
+  const [{ schema, table }] = snapshots;
+  await alterTableColumns(
+    knex,
+    schema,
+    table,
+    snapshots.map((snap) =>
+      modifyColumnClause(parseColumnDefinition(snap.definition)),
+    ),
+    `Restore original definition of ${snapshots.map((snap) => `${schema}.${table}.${snap.column}`).join(", ")}`,
+    script,
+    ALTER_KIND_STRENGTH.filter((kind) => kinds.includes(kind)).pop(),
+  );
+}
+
+// A missing column is treated as a type change; the restore itself will then
+// fail with the server's error.
+async function getRestoreAlterKind(
+  knex: KnexType,
+  snapshot: ColumnSnapshot,
+): Promise<AlterKind> {
+  const original = parseColumnDefinition(snapshot.definition);
+  const live = await knex("information_schema.COLUMNS")
+    .select("COLUMN_TYPE", "IS_NULLABLE")
+    .where({
+      TABLE_SCHEMA: snapshot.schema,
+      TABLE_NAME: snapshot.table,
+      COLUMN_NAME: snapshot.column,
+    })
+    .first();
+
+  if (!live || live.COLUMN_TYPE !== original.columnType) return "change_type";
+  if ((live.IS_NULLABLE === "YES") !== original.nullable) {
+    return "change_nullability";
+  }
+  return "change_attributes";
+}
+
+// ============== Batch Progress ==============
+function getProgressPath(): string {
+  return path.resolve(process.cwd(), PROGRESS_FILE);
+}
+
+function loadFixProgress(config: DbConfig): FixProgressFile {
+  const empty: FixProgressFile = {
+    connection: getConnectionKey(config),
+    columns: {},
+  };
+  const progressPath = getProgressPath();
+  if (!fs.existsSync(progressPath)) {
+    return empty;
+  }
+  try {
+    const progress = JSON.parse(
+      fs.readFileSync(progressPath, "utf-8"),
+    ) as FixProgressFile;
+    if (!isSameConnection(progress.connection, config)) {
+      return empty;
+    }
+    return progress;
+  } catch {
+    return empty;
+  }
+}
+
+function saveFixProgress(progress: FixProgressFile): void {
+  const progressPath = getProgressPath();
+  if (Object.keys(progress.columns).length === 0) {
+    if (fs.existsSync(progressPath)) fs.unlinkSync(progressPath);
+    return;
+  }
+  fs.writeFileSync(progressPath, JSON.stringify(progress, null, 2), "utf-8");
+}
+
+// Row-constructor comparison, e.g. (`a`, `b`) > (?, ?), so composite primary
+// keys are walked in index order.
+function keyCondition(
+  primaryKey: string[],
+  operator: ">" | "<=",
+  key: Record<string, unknown>,
+): SqlCondition {
+  const columns = primaryKey.map((k) => `\`${k}\``).join(", ");
+  const placeholders = primaryKey.map(() => "?").join(", ");
+  return {
+    sql: `(${columns}) ${operator} (${placeholders})`,
+    bindings: primaryKey.map((k) => key[k]),
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Walks the table in primary-key order, updating at most one batch of keys
+// per statement so locks are held briefly. Each batch's originals are read
+// with FOR UPDATE and updated in the same transaction, so every changed row
+// is in the backup.
+async function fixBadRowsInBatches(
+  knex: KnexType,
+  schema: string,
+  table: string,
+  column: string,
+  dataType: DateDataType,
+  options: {
+    primaryKey: string[];
+    replacement: Replacement;
+    batch: BatchOptions;
+    startKey: Record<string, unknown> | null;
+    backup: BackupFile | null;
+    script: SqlScript | null;
+    shouldStop: () => boolean;
+    beforeBatch: () => Promise<void>;
+    onBatch: (progress: BatchProgress) => void;
+  },
+): Promise<BatchProgress & { completed: boolean }> {
+  const { primaryKey, replacement, batch, script } = options;
+  const keyColumns = primaryKey.map((k) => `\`${k}\``).join(", ");
+  const progress: BatchProgress = {
+    batch: 0,
+    lastKey: options.startKey,
+    updatedRows: 0,
+  };
+
+  let backupEntry: ColumnBackup | null = null;
+  if (options.backup) {
+    backupEntry = {
+      schema,
+      table,
+      column,
+      dataType,
+      primaryKey,
+      replacement: replacement.expression,
+      rowsFile: `${options.backup.id}.${options.backup.columns.length}.jsonl`,
+      rowCount: 0,
+    };
+    options.backup.columns.push(backupEntry);
+  }
+
+  if (script) {
+    await clearScriptSqlMode(
+      knex,
+      script,
+      "Clear sql_mode so bad dates can be matched",
+    );
+  }
+
+  while (true) {
+    await options.beforeBatch();
+    if (options.shouldStop()) {
+      return { ...progress, completed: false };
+    }
+
+    const lower = progress.lastKey
+      ? keyCondition(primaryKey, ">", progress.lastKey)
+      : null;
+
+    // Upper bound of this batch: the batch.size-th key after the last one
+    let upperKey: Record<string, unknown> | null = null;
+    if (batch.size > 0) {
+      const bound = await knex.raw(
+        `SELECT ${keyColumns} FROM \`${schema}\`.\`${table}\`${lower ? ` WHERE ${lower.sql}` : ""} ORDER BY ${keyColumns} LIMIT 1 OFFSET ${batch.size - 1}`,
+        lower?.bindings ?? [],
+      );
+      upperKey = bound[0][0] ?? null;
+    }
+
+    const range: SqlCondition[] = [];
+    if (lower) range.push(lower);
+    if (upperKey) range.push(keyCondition(primaryKey, "<=", upperKey));
+    if (replacement.condition) {
+      range.push({ sql: replacement.condition, bindings: [] });
+    }
+
+    const conditions = [
+      ...range.map((r) => r.sql),
+      badDatePredicate(column, dataType),
+    ].join(" AND ");
+    const bindings = range.flatMap((r) => r.bindings);
+
+    const updateBatch = async (conn: KnexType): Promise<number> => {
+      if (backupEntry && options.backup) {
+        // Persist before updating so the originals survive a crash mid-fix
+        appendBackupRows(
+          options.backup,
+          backupEntry,
+          await captureBadRows(
+            conn,
+            schema,
+            table,
+            column,
+            dataType,
+            primaryKey,
+            range,
+          ),
+        );
+      }
+
+      let estimatedRows: number | null = null;
+      if (script) {
+        const count = await conn.raw(
+          `SELECT COUNT(*) as count FROM \`${schema}\`.\`${table}\` WHERE ${conditions}`,
+          bindings,
+        );
+        estimatedRows = Number(count[0][0].count);
+      }
+
+      return runStatement(conn, script, {
+        sql: conn
+          .raw(
+            `UPDATE \`${schema}\`.\`${table}\` SET \`${column}\` = ${replacement.expression} WHERE ${conditions}`,
+            bindings,
+          )
+          .toString(),
+        description: `Set bad dates to ${replacement.expression} in ${schema}.${table}.${column} (batch ${progress.batch})`,
+        estimatedRows,
+      });
+    };
+
+    progress.batch++;
+    progress.updatedRows += script
+      ? await updateBatch(knex)
+      : await withClearedSqlMode(
+          knex,
+          null,
+          "Clear sql_mode so bad dates can be matched",
+          updateBatch,
+        );
+    progress.lastKey = upperKey;
+    options.onBatch(progress);
+
+    if (!upperKey) {
+      return { ...progress, completed: true };
+    }
+    if (batch.sleepMs > 0 && !script) {
+      await sleep(batch.sleepMs);
+    }
+  }
+}
+
+// ============== Throttling ==============
+function createThrottle(options: ThrottleOptions): Throttle | null {
+  if (options.replicas.length === 0 && options.maxThreadsRunning === 0) {
+    return null;
+  }
+
+  return {
+    options,
+    replicas: options.replicas.map((config) => ({
+      config,
+      knex: createKnex(config),
+    })),
+  };
+}
+
+async function destroyThrottle(throttle: Throttle | null): Promise<void> {
+  if (!throttle) return;
+  await Promise.all(throttle.replicas.map((r) => r.knex.destroy()));
+}
+
+// Seconds behind the source, or null when replication is not running.
+// SHOW REPLICA STATUS needs MySQL 8.0.22+; older servers and MariaDB only
+// understand SHOW SLAVE STATUS.
+async function getReplicaLag(knex: KnexType): Promise<number | null> {
+  let rows: Record<string, unknown>[];
+  try {
+    rows = (await knex.raw("SHOW REPLICA STATUS"))[0];
+  } catch {
+    rows = (await knex.raw("SHOW SLAVE STATUS"))[0];
+  }
+
+  if (rows.length === 0) {
+    throw new Error("server is not configured as a replica");
+  }
+
+  const lag = rows[0].Seconds_Behind_Source ?? rows[0].Seconds_Behind_Master;
+  return lag === null || lag === undefined ? null : Number(lag);
+}
+
+async function getThreadsRunning(knex: KnexType): Promise<number> {
+  const result = await knex.raw("SHOW GLOBAL STATUS LIKE 'Threads_running'");
+  return Number(result[0][0]?.Value ?? 0);
+}
+
+// Returns why work should pause, or null when there is capacity
+async function checkThrottle(
+  knex: KnexType,
+  throttle: Throttle,
+): Promise<string | null> {
+  const { maxReplicaLag, maxThreadsRunning } = throttle.options;
+
+  for (const replica of throttle.replicas) {
+    const name = describeConnection(replica.config);
+    let lag: number | null;
+    try {
+      lag = await getReplicaLag(replica.knex);
+    } catch (error) {
+      throw new Error(
+        `Could not read replica status from ${name}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+    // A stopped replica never catches up, so waiting for it would hang
+    if (lag === null) {
+      throw new Error(
+        `Replica ${name} is not replicating (Seconds_Behind_Source is NULL)`,
+      );
+    }
+    if (lag > maxReplicaLag) {
+      return `replica ${name} lag ${lag}s > ${maxReplicaLag}s`;
+    }
+  }
+
+  if (maxThreadsRunning > 0) {
+    const running = await getThreadsRunning(knex);
+    if (running > maxThreadsRunning) {
+      return `Threads_running ${running} > ${maxThreadsRunning}`;
+    }
+  }
+
+  return null;
+}
+
+// Returns early once shouldStop is true, so Ctrl+C works while paused
+async function waitForCapacity(
+  knex: KnexType,
+  throttle: Throttle | null,
+  onPause: (reason: string) => void,
+  shouldStop: () => boolean = () => false,
+): Promise<void> {
+  if (!throttle) return;
+
+  let reason = await checkThrottle(knex, throttle);
+  while (reason && !shouldStop()) {
+    onPause(reason);
+    await sleep(throttle.options.pollMs);
+    reason = await checkThrottle(knex, throttle);
+  }
+}
+
+// ============== Database Queries ==============
+async function getAllSchemas(knex: KnexType): Promise<string[]> {
+  const result = await knex.raw("SHOW DATABASES");
+  const databases: string[] = result[0].map(
+    (row: { Database: string }) => row.Database,
+  );
+
+  return databases.filter((db) => !SYSTEM_SCHEMAS.includes(db));
+}
+
+async function getDateColumns(
+  knex: KnexType,
+  schemas: string[],
+): Promise<Omit<ColumnInfo, "badRowCount" | "badRowCounts">[]> {
+  const columns = await knex("information_schema.COLUMNS")
+    .select(
+      "TABLE_SCHEMA",
+      "TABLE_NAME",
+      "COLUMN_NAME",
+      "DATA_TYPE",
+      "IS_NULLABLE",
+      "COLUMN_DEFAULT",
+    )
+    .whereIn("TABLE_SCHEMA", schemas)
+    .whereIn("DATA_TYPE", DATE_DATA_TYPES);
+
+  return columns;
+}
+
+async function countBadRows(
+  knex: KnexType,
+  schema: string,
+  table: string,
+  column: string,
+  dataType: DateDataType,
+): Promise<BadRowCounts | null> {
+  try {
+    const result = await knex.raw(
+      `SELECT COUNT(CASE WHEN ${zeroDatePredicate(column, dataType)} THEN 1 END) as zero, ` +
+        `COUNT(CASE WHEN ${partialZeroDatePredicate(column, dataType)} THEN 1 END) as partialZero, ` +
+        `COUNT(CASE WHEN ${invalidDatePredicate(column, dataType)} THEN 1 END) as invalid ` +
+        `FROM \`${schema}\`.\`${table}\``,
+    );
+    const row = result[0][0];
+    return {
+      zero: Number(row.zero),
+      partialZero: Number(row.partialZero),
+      invalid: Number(row.invalid),
+    };
+  } catch (error) {
+    // Table might be locked or inaccessible
+    return null;
+  }
+}
+
+type CountedColumn = {
+  COLUMN_NAME: string;
+  DATA_TYPE: DateDataType;
+  // Zero dates are counted separately through the column's index
+  zeroFromIndex?: boolean;
+};
+
+function badRowCountSelects(columns: CountedColumn[]): string[] {
+  return columns.flatMap((col, i) => [
+    col.zeroFromIndex
+      ? `0 AS c${i}_zero`
+      : `COUNT(CASE WHEN ${zeroDatePredicate(col.COLUMN_NAME, col.DATA_TYPE)} THEN 1 END) AS c${i}_zero`,
+    `COUNT(CASE WHEN ${partialZeroDatePredicate(col.COLUMN_NAME, col.DATA_TYPE)} THEN 1 END) AS c${i}_partialZero`,
+    `COUNT(CASE WHEN ${invalidDatePredicate(col.COLUMN_NAME, col.DATA_TYPE)} THEN 1 END) AS c${i}_invalid`,
+  ]);
+}
+
+function readBadRowCounts(
+  row: Record<string, unknown>,
+  columns: CountedColumn[],
+): BadRowCounts[] {
+  return columns.map((_, i) => ({
+    zero: Number(row[`c${i}_zero`]),
+    partialZero: Number(row[`c${i}_partialZero`]),
+    invalid: Number(row[`c${i}_invalid`]),
+  }));
+}
+
+// Counts every listed column in a single pass over the table
+async function countTableBadRows(
+  knex: KnexType,
+  schema: string,
+  table: string,
+  columns: CountedColumn[],
+): Promise<Map<string, BadRowCounts> | null> {
+  try {
+    const result = await knex.raw(
+      `SELECT ${badRowCountSelects(columns).join(", ")} FROM \`${schema}\`.\`${table}\``,
+    );
+    const counts = readBadRowCounts(result[0][0], columns);
+    return new Map(columns.map((col, i) => [col.COLUMN_NAME, counts[i]]));
+  } catch (error) {
+    // Table might be locked or inaccessible
+    return null;
+  }
+}
+
+// The same values zeroDatePredicate's LIKE '0000-00-00%' matches, as a range
+// MySQL can read from an index on the column
+function zeroDateRange(column: string, dataType: DateDataType): string {
+  return dataType === "date"
+    ? `\`${column}\` = '0000-00-00'`
+    : `\`${column}\` BETWEEN '0000-00-00 00:00:00' AND '0000-00-00 23:59:59.999999'`;
+}
+
+// For a column that leads an index: zero dates are an index range read
+// instead of a table scan
+async function countIndexedZeroDates(
+  knex: KnexType,
+  schema: string,
+  table: string,
+  column: string,
+  dataType: DateDataType,
+): Promise<number | null> {
+  try {
+    // Relaxed so the zero date literals are accepted
+    return await withRelaxedSqlMode(knex, async (conn) => {
+      const result = await conn.raw(
+        `SELECT COUNT(*) AS zero FROM \`${schema}\`.\`${table}\` WHERE ${zeroDateRange(column, dataType)}`,
+      );
+      return Number(result[0][0].zero);
+    });
+  } catch (error) {
+    return null;
+  }
+}
+
+async function fetchBadRowsSample(
+  knex: KnexType,
+  schema: string,
+  table: string,
+  column: string,
+  dataType: DateDataType,
+  limit: number = 10,
+): Promise<Record<string, unknown>[]> {
+  try {
+    const result = await knex.raw(
+      `SELECT * FROM \`${schema}\`.\`${table}\` WHERE ${badDatePredicate(column, dataType)} LIMIT ${limit}`,
+    );
+    return result[0];
+  } catch (error) {
+    return [];
+  }
+}
+
+async function getTableRowEstimate(
+  knex: KnexType,
+  schema: string,
+  table: string,
+): Promise<number | null> {
+  const row = await knex("information_schema.TABLES")
+    .select("TABLE_ROWS")
+    .where({ TABLE_SCHEMA: schema, TABLE_NAME: table })
+    .first();
+
+  return row?.TABLE_ROWS ?? null;
+}
+
+async function fixBadRows(
+  schema: string,
+  table: string,
+  column: string,
+  dataType: DateDataType,
+  knex: KnexType,
+  script: SqlScript | null = null,
+  estimatedRows: number | null = null,
+  replacement: Replacement = NULL_REPLACEMENT,
+): Promise<number> {
+  return withClearedSqlMode(
+    knex,
+    script,
+    "Clear sql_mode so bad dates can be matched",
+    (conn) =>
+      runStatement(conn, script, {
+        sql: `UPDATE \`${schema}\`.\`${table}\` SET \`${column}\` = ${replacement.expression} WHERE ${[badDatePredicate(column, dataType), replacement.condition].filter(Boolean).join(" AND ")}`,
+        description: `Set bad dates to ${replacement.expression} in ${schema}.${table}.${column}`,
+        estimatedRows,
+      }),
+  );
+}
+
+function timestampToDatetimeClause(definition: ColumnDefinition): string {
+  return modifyColumnClause(withDataType(definition, "datetime"));
+}
+
+function allowNullClause(definition: ColumnDefinition): string {
+  return modifyColumnClause({ ...definition, nullable: true });
+}
+
+// One ALTER per table: MySQL rebuilds the table once no matter how many
+// columns the statement modifies.
+async function alterTableColumns(
+  knex: KnexType,
+  schema: string,
+  table: string,
+  clauses: string[],
+  description: string,
+  script: SqlScript | null = null,
+  kind: AlterKind = "change_attributes",
+): Promise<number> {
+  const body = clauses.join(", ");
+  const online = await getOnlineAlter(knex, kind);
+  const estimatedRows = script
+    ? await getTableRowEstimate(knex, schema, table)
+    : null;
+  // A rejected choice is retried with the next weaker one, ending with no
+  // clauses at all, which is what --online off runs
+  const attempts = online ? [...onlineAlterFallbacks(online), null] : [null];
+
+  for (let i = 0; ; i++) {
+    const attempt = attempts[i];
+    try {
+      return await runStatement(knex, script, {
+        sql: `ALTER TABLE \`${schema}\`.\`${table}\` ${body}${formatOnlineAlter(attempt)}`,
+        description,
+        estimatedRows,
+        alter: { schema, table, body },
+      });
+    } catch (error) {
+      if (!attempt || !isOnlineDdlRejection(error)) throw error;
+      const next = attempts[i + 1];
+      console.log(
+        chalk.yellow(
+          `\n⚠️  ${schema}.${table} cannot be altered with ALGORITHM=${attempt.algorithm}, LOCK=${attempt.lock}; retrying with ${next ? `ALGORITHM=${next.algorithm}, LOCK=${next.lock}` : "the server's default locking"}.`,
+        ),
+      );
+    }
+  }
+}
+
+async function getColumnDefaults(
+  knex: KnexType,
+  schemas: string[],
+): Promise<ColumnDefault[]> {
+  const columns = await knex("information_schema.COLUMNS")
+    .select(
+      "TABLE_SCHEMA",
+      "TABLE_NAME",
+      "COLUMN_NAME",
+      "DATA_TYPE",
+      "IS_NULLABLE",
+      "COLUMN_DEFAULT",
+      "EXTRA",
+    )
+    .whereIn("TABLE_SCHEMA", schemas)
+    .whereIn("DATA_TYPE", DATE_DATA_TYPES);
+
+  return columns;
+}
+
+// Reads both columns in full, then takes nullability, DEFAULT and ON UPDATE
+// from the source and keeps every other attribute of the target as it is
+async function applyColumnDefault(
+  knex: KnexType,
+  sourceKnex: KnexType,
+  col: ColumnDefault,
+  script: SqlScript | null = null,
+): Promise<number> {
+  const read = async (from: KnexType) =>
+    (
+      await readColumnDefinitions(from, col.TABLE_SCHEMA, col.TABLE_NAME, [
+        col.COLUMN_NAME,
+      ])
+    ).get(col.COLUMN_NAME)!;
+  const current = await read(knex);
+  const source = await read(sourceKnex);
+  const target: ColumnDefinition = {
+    ...current,
+    nullable: source.nullable,
+    columnDefault: source.columnDefault,
+    defaultGenerated: source.defaultGenerated,
+    onUpdate: source.onUpdate,
+  };
+
+  return alterTableColumns(
+    knex,
+    col.TABLE_SCHEMA,
+    col.TABLE_NAME,
+    [modifyColumnClause(target)],
+    `Sync default of ${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME} from source`,
+    script,
+    source.nullable === current.nullable
+      ? "change_attributes"
+      : "change_nullability",
+  );
+}
+
+// ============== SQL Script (Dry Run) ==============
+// Executors pass a script when running in dry-run mode: statements are
+// collected for review instead of being sent to the server.
+function createSqlScript(): SqlScript {
+  return { statements: [] };
+}
+
+async function runStatement(
+  knex: KnexType,
+  script: SqlScript | null,
+  statement: ScriptStatement,
+): Promise<number> {
+  if (script) {
+    script.statements.push(statement);
+    return statement.estimatedRows ?? 0;
+  }
+
+  const result = await knex.raw(statement.sql);
+  return result[0]?.affectedRows ?? 0;
+}
+
+function getDefaultScriptPath(action: string, extension = "sql"): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return path.resolve(
+    process.cwd(),
+    `db-fixer-${action}-${stamp}.${extension}`,
+  );
+}
+
+function writeSqlScript(
+  filePath: string,
+  script: SqlScript,
+  context: ScriptContext,
+): void {
+  const lines = [
+    "-- db-date-fixer migration script (dry run)",
+    `-- Generated:  ${new Date().toISOString()}`,
+    `-- Host:       ${context.host}:${context.port}`,
+    `-- Schemas:    ${context.schemas.join(", ")}`,
+    `-- Scan time:  ${context.scannedAt ?? "unknown"}`,
+    `-- Action:     ${context.action}`,
+    `-- Statements: ${script.statements.length}`,
+    "",
+  ];
+
+  script.statements.forEach((statement, i) => {
+    const rows =
+      statement.estimatedRows === null
+        ? ""
+        : ` (~${statement.estimatedRows} rows)`;
+    lines.push(
+      `-- [${i + 1}/${script.statements.length}] ${statement.description}${rows}`,
+    );
+    lines.push(`${statement.sql};`);
+    lines.push("");
+  });
+
+  fs.writeFileSync(filePath, lines.join("\n"), "utf-8");
+}
+
+// ============== ALTER Cost Estimates ==============
+// Table sizes come from information_schema.TABLES, whose TABLE_ROWS is itself
+// an estimate for InnoDB.
+async function estimateAlterCosts(
+  knex: KnexType,
+  tables: TableSelection[],
+  kind: AlterKind,
+): Promise<Map<string, TableCost>> {
+  const rows = await knex("information_schema.TABLES")
+    .select(
+      "TABLE_SCHEMA",
+      "TABLE_NAME",
+      "TABLE_ROWS",
+      "DATA_LENGTH",
+      "INDEX_LENGTH",
+    )
+    .whereIn(
+      ["TABLE_SCHEMA", "TABLE_NAME"],
+      tables.map((t) => [t.schema, t.table]),
+    );
+
+  const { rebuild, throughput } = await getAlterSpeed(knex, kind);
+  const costs = new Map<string, TableCost>();
+
+  for (const row of rows) {
+    const dataBytes = Number(row.DATA_LENGTH ?? 0);
+    const indexBytes = Number(row.INDEX_LENGTH ?? 0);
+    costs.set(`${row.TABLE_SCHEMA}.${row.TABLE_NAME}`, {
+      rows: Number(row.TABLE_ROWS ?? 0),
+      dataBytes,
+      indexBytes,
+      rebuild,
+      estimatedSeconds: rebuild ? (dataBytes + indexBytes) / throughput : 0,
+    });
+  }
+  return costs;
+}
+
+// Follows what will run: the tools copy every table, while native and
+// --online off leave it to the server, which picks the same algorithm as
+// chooseOnlineAlter and copies every table before online DDL existed
+async function getAlterSpeed(
+  knex: KnexType,
+  kind: AlterKind,
+): Promise<{ rebuild: boolean; throughput: number }> {
+  if (isOnlineTool(onlineOptions.mode)) {
+    return { rebuild: true, throughput: ONLINE_TOOL_BYTES_PER_SECOND };
+  }
+  const online = chooseOnlineAlter(await getServerInfo(knex), kind);
+  if (!online) {
+    return { rebuild: true, throughput: ALTER_BYTES_PER_SECOND.COPY };
+  }
+  // Only default changes are metadata-only; NULL and type changes rebuild
+  return {
+    rebuild: kind !== "change_attributes",
+    throughput: ALTER_BYTES_PER_SECOND[online.algorithm],
+  };
+}
+
+function sortTableGroups<T extends TableSelection>(
+  tables: T[],
+  costs: Map<string, TableCost>,
+  sort: CostSort,
+): T[] {
+  const cost = (t: T) => costs.get(`${t.schema}.${t.table}`);
+  const key = (t: T): number => {
+    switch (sort) {
+      case "rows":
+        return cost(t)?.rows ?? 0;
+      case "size":
+        return (cost(t)?.dataBytes ?? 0) + (cost(t)?.indexBytes ?? 0);
+      case "duration":
+        return cost(t)?.estimatedSeconds ?? 0;
+      case "name":
+        return 0;
+    }
+  };
+
+  // Largest first, so big tables can be spotted and scheduled
+  return [...tables].sort(
+    (a, b) =>
+      key(b) - key(a) ||
+      `${a.schema}.${a.table}`.localeCompare(`${b.schema}.${b.table}`),
+  );
+}
+
+function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 1) return "<1s";
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.round(seconds % 60);
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${secs}s`;
+  return `${secs}s`;
+}
+
+function displayAlterCosts(
+  tables: { schema: string; table: string; cols: ColumnInfo[] }[],
+  costs: Map<string, TableCost>,
+  describeColumn: (col: ColumnInfo) => string,
+): void {
+  console.log(
+    chalk.bold(
+      "  Table".padEnd(45) +
+        "~Rows".padEnd(14) +
+        "Data".padEnd(12) +
+        "Index".padEnd(12) +
+        "Rebuild".padEnd(10) +
+        "~Duration",
+    ),
+  );
+
+  let totalBytes = 0;
+  let totalSeconds = 0;
+  for (const { schema, table, cols } of tables) {
+    const cost = costs.get(`${schema}.${table}`);
+    const name = `  ${schema}.${table}`.padEnd(45);
+    if (!cost) {
+      console.log(`${name}${chalk.gray("no statistics")}`);
+    } else {
+      totalBytes += cost.dataBytes + cost.indexBytes;
+      totalSeconds += cost.estimatedSeconds;
+      console.log(
+        name +
+          cost.rows.toLocaleString("en-US").padEnd(14) +
+          formatBytes(cost.dataBytes).padEnd(12) +
+          formatBytes(cost.indexBytes).padEnd(12) +
+          (cost.rebuild ? chalk.yellow("yes".padEnd(10)) : "no".padEnd(10)) +
+          (cost.rebuild ? formatDuration(cost.estimatedSeconds) : "instant"),
+      );
+    }
+    for (const col of cols) {
+      console.log(chalk.gray(`     • ${describeColumn(col)}`));
+    }
+  }
+
+  console.log(
+    chalk.gray(
+      `  Total: ${tables.length} table(s), ${formatBytes(totalBytes)}, ~${formatDuration(totalSeconds)}`,
+    ),
+  );
+}
+
+// ============== Online Schema Changes ==============
+// Set once from --online in main; the server version is read on first use.
+const onlineOptions: OnlineOptions = {
+  mode: "native",
+  server: null,
+};
+
+async function getServerInfo(knex: KnexType): Promise<ServerInfo> {
+  if (onlineOptions.server) return onlineOptions.server;
+
+  const [rows] = await knex.raw("SELECT VERSION() AS version");
+  const version = String(rows[0].version);
+  // MariaDB may report itself behind a 5.5.5- compatibility prefix
+  const match = version.replace(/^5\.5\.5-/, "").match(/^(\d+)\.(\d+)/);
+  onlineOptions.server = {
+    version,
+    flavor: /mariadb/i.test(version) ? "mariadb" : "mysql",
+    major: match ? Number(match[1]) : 0,
+    minor: match ? Number(match[2]) : 0,
+  };
+  return onlineOptions.server;
+}
+
+function isOnlineTool(mode: OnlineMode): mode is "pt-osc" | "gh-ost" {
+  return mode === "pt-osc" || mode === "gh-ost";
+}
+
+// Online DDL arrived in MySQL 5.6 and MariaDB 10.0. A type change always
+// copies the table, so the best it can do is keep reads going.
+function chooseOnlineAlter(
+  server: ServerInfo,
+  kind: AlterKind,
+): OnlineAlter | null {
+  const supported =
+    server.flavor === "mariadb"
+      ? server.major >= 10
+      : server.major > 5 || (server.major === 5 && server.minor >= 6);
+  if (!supported) return null;
+
+  return kind === "change_type"
+    ? { algorithm: "COPY", lock: "SHARED" }
+    : { algorithm: "INPLACE", lock: "NONE" };
+}
+
+// Weakest last: writes wait under SHARED, and COPY rebuilds the whole table
+const ONLINE_ALTER_FALLBACKS: OnlineAlter[] = [
+  { algorithm: "INPLACE", lock: "NONE" },
+  { algorithm: "INPLACE", lock: "SHARED" },
+  { algorithm: "COPY", lock: "SHARED" },
+];
+
+function onlineAlterFallbacks(preferred: OnlineAlter): OnlineAlter[] {
+  return ONLINE_ALTER_FALLBACKS.slice(
+    ONLINE_ALTER_FALLBACKS.findIndex(
+      (a) => a.algorithm === preferred.algorithm && a.lock === preferred.lock,
+    ),
+  );
+}
+
+function formatOnlineAlter(online: OnlineAlter | null): string {
+  return online ? `, ALGORITHM=${online.algorithm}, LOCK=${online.lock}` : "";
+}
+
+async function getOnlineAlter(
+  knex: KnexType,
+  kind: AlterKind,
+): Promise<OnlineAlter | null> {
+  if (onlineOptions.mode !== "native") return null;
+  return chooseOnlineAlter(await getServerInfo(knex), kind);
+}
+
+function isOnlineDdlRejection(error: unknown): boolean {
+  const code = (error as { code?: string } | null)?.code;
+  return (
+    code === "ER_ALTER_OPERATION_NOT_SUPPORTED" ||
+    code === "ER_ALTER_OPERATION_NOT_SUPPORTED_REASON"
+  );
+}
+
+// Shown next to each executor's confirmation so the locking impact is known
+// before anything runs
+async function printOnlineAlterChoice(
+  knex: KnexType,
+  kinds: AlterKind[],
+  script: SqlScript | null,
+): Promise<void> {
+  if (isOnlineTool(onlineOptions.mode) && script) {
+    console.log(
+      chalk.cyan(
+        `ALTERs will be written as ${onlineOptions.mode} commands to a shell script.`,
+      ),
+    );
+    return;
+  }
+  if (onlineOptions.mode === "off") {
+    console.log(
+      chalk.cyan("ALTERs use the server's default algorithm and locking."),
+    );
+    return;
+  }
+
+  const server = await getServerInfo(knex);
+  for (const kind of new Set(kinds)) {
+    const choice = chooseOnlineAlter(server, kind);
+    console.log(
+      choice
+        ? chalk.cyan(
+            `ALTER for ${ALTER_KIND_LABELS[kind]}: ALGORITHM=${choice.algorithm}, LOCK=${choice.lock} ` +
+              (choice.lock === "NONE"
+                ? "(reads and writes continue)"
+                : "(reads continue, writes wait)"),
+          )
+        : chalk.yellow(
+            `ALTER for ${ALTER_KIND_LABELS[kind]}: ${server.version} has no online DDL, the table is locked while it is altered`,
+          ),
+    );
+  }
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// pt-osc quotes --set-vars values itself, so the SQL quoting is dropped
+function ptOscSetVars(session: Map<string, string>): string[] {
+  if (session.size === 0) return [];
+  const vars = [...session].map(
+    ([name, value]) => `${name}=${value.replace(/^'(.*)'$/, "$1")}`,
+  );
+  return ["--set-vars", shellQuote(vars.join(","))];
+}
+
+function onlineToolCommand(
+  tool: "pt-osc" | "gh-ost",
+  alter: NonNullable<ScriptStatement["alter"]>,
+  context: ScriptContext,
+  user: string,
+  session: Map<string, string>,
+): string[] {
+  if (tool === "pt-osc") {
+    return [
+      [
+        "pt-online-schema-change",
+        '--defaults-file "$DEFAULTS_FILE"',
+        "--alter",
+        shellQuote(alter.body),
+        ...ptOscSetVars(session),
+        "--execute",
+        shellQuote(
+          `h=${context.host},P=${context.port},u=${user},D=${alter.schema},t=${alter.table}`,
+        ),
+      ].join(" "),
+    ];
+  }
+
+  const lines: string[] = [];
+  if (session.has("time_zone")) {
+    lines.push(
+      `# gh-ost cannot pin the session time zone (${session.get("time_zone")}); verify the converted values`,
+    );
+  }
+  lines.push(
+    [
+      "gh-ost",
+      `--host=${shellQuote(context.host)}`,
+      `--port=${context.port}`,
+      '--conf="$DEFAULTS_FILE"',
+      `--database=${shellQuote(alter.schema)}`,
+      `--table=${shellQuote(alter.table)}`,
+      `--alter=${shellQuote(alter.body)}`,
+      "--allow-on-master",
+      "--execute",
+    ].join(" "),
+  );
+  return lines;
+}
+
+// Same statements as the dry-run SQL file, but every ALTER becomes a pt-osc /
+// gh-ost invocation. SET SESSION statements only shape what follows them, so
+// they are carried into the later commands instead of being run on their own.
+function writeOnlineToolScript(
+  filePath: string,
+  script: SqlScript,
+  context: ScriptContext,
+  user: string,
+  tool: "pt-osc" | "gh-ost",
+): void {
+  const lines = [
+    "#!/bin/sh",
+    `# db-date-fixer online schema change script (${tool})`,
+    `# Generated:  ${new Date().toISOString()}`,
+    `# Host:       ${context.host}:${context.port}`,
+    `# Schemas:    ${context.schemas.join(", ")}`,
+    `# Scan time:  ${context.scannedAt ?? "unknown"}`,
+    `# Action:     ${context.action}`,
+    `# Statements: ${script.statements.length}`,
+    "set -eu",
+    `: "\${MYSQL_PWD:?Set MYSQL_PWD to the password of ${user}}"`,
+    "# pt-osc and gh-ost read the credentials from an option file, so the",
+    "# password never appears on a command line",
+    "DEFAULTS_FILE=$(mktemp)",
+    `trap 'rm -f "$DEFAULTS_FILE"' EXIT`,
+    `printf '[client]\\nuser=%s\\npassword=%s\\n' ${shellQuote(user)} "$MYSQL_PWD" > "$DEFAULTS_FILE"`,
+    "",
+  ];
+  const session = new Map<string, string>();
+
+  script.statements.forEach((statement, i) => {
+    const setSession = statement.sql.match(/^SET SESSION (\w+) = (.*)$/);
+    if (setSession) {
+      session.set(setSession[1], setSession[2]);
+      return;
+    }
+
+    const rows =
+      statement.estimatedRows === null
+        ? ""
+        : ` (~${statement.estimatedRows} rows)`;
+    lines.push(
+      `# [${i + 1}/${script.statements.length}] ${statement.description}${rows}`,
+    );
+    if (statement.alter) {
+      lines.push(
+        ...onlineToolCommand(tool, statement.alter, context, user, session),
+      );
+    } else {
+      const prelude = [...session]
+        .map(([name, value]) => `SET SESSION ${name} = ${value}; `)
+        .join("");
+      lines.push(
+        `mysql -h ${shellQuote(context.host)} -P ${context.port} -u ${shellQuote(user)} -e ${shellQuote(prelude + statement.sql)}`,
+      );
+    }
+    lines.push("");
+  });
+
+  fs.writeFileSync(filePath, lines.join("\n"), {
+    encoding: "utf-8",
+    mode: 0o755,
+  });
+}
+
+// ============== Schema Selection ==============
+async function selectSchemas(knex: KnexType): Promise<string[]> {
+  const spinner = ora("Fetching available schemas...").start();
+
+  const allSchemas = await getAllSchemas(knex);
+
+  spinner.succeed(`Found ${allSchemas.length} schemas.`);
+
+  if (allSchemas.length === 0) {
+    console.log(chalk.red("\nNo accessible schemas found!\n"));
+    process.exit(1);
+  }
+
+  if (inputOptions.schemas) {
+    const unknown = inputOptions.schemas.filter(
+      (schema) => !allSchemas.includes(schema),
+    );
+    if (unknown.length > 0) {
+      throw new Error(`Unknown schema(s) in --schemas: ${unknown.join(", ")}`);
+    }
+    console.log(chalk.gray(`Schemas: ${inputOptions.schemas.join(", ")}`));
+    return inputOptions.schemas;
+  }
+
+  if (inputOptions.yes) {
+    console.log(chalk.gray(`Schemas: all ${allSchemas.length} (--yes)`));
+    return allSchemas;
+  }
+  if (!inputOptions.interactive) {
+    throw new InputRequiredError(
+      "Schema selection",
+      "Pass --schemas <list>, or --yes to scan all schemas.",
+    );
+  }
+
+  const selected = await checkbox({
+    message: "Select schemas to scan:",
+    choices: allSchemas.map((schema) => ({
+      name: schema,
+      value: schema,
+      checked: true,
+    })),
+    required: true,
+  });
+
+  return selected;
+}
+
+// ============== Privilege Preflight ==============
+// Splits "SELECT (`a`, `b`), UPDATE" on the commas outside column lists
+function splitGrantPrivileges(list: string): string[] {
+  const privileges: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of list) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) {
+      privileges.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  privileges.push(current);
+
+  // Column-level grants count for the whole table: the tool only touches
+  // the date columns and the primary key, which such grants usually cover
+  return privileges
+    .map((p) =>
+      p
+        .replace(/\(.*\)/, "")
+        .trim()
+        .toUpperCase(),
+    )
+    .map((p) => (p === "ALL PRIVILEGES" ? "ALL" : p))
+    .filter(Boolean);
+}
+
+function unquoteGrantName(name: string): string {
+  return name.startsWith("`") ? name.slice(1, -1).replace(/``/g, "`") : name;
+}
+
+const GRANT_NAME = "`(?:[^`]|``)*`|\\*|[^\\s.`]+";
+const GRANT_PATTERN = new RegExp(
+  `^GRANT (.+?) ON (?:(TABLE|FUNCTION|PROCEDURE) )?(${GRANT_NAME})\\.(${GRANT_NAME}) TO `,
+  "i",
+);
+
+function parseGrant(line: string): GrantRule | null {
+  const match = line.match(GRANT_PATTERN);
+  if (!match) return null;
+  const [, list, objectType, schema, table] = match;
+  if (objectType && objectType.toUpperCase() !== "TABLE") return null;
+
+  return {
+    privileges: splitGrantPrivileges(list),
+    schema: unquoteGrantName(schema),
+    table: unquoteGrantName(table),
+  };
+}
+
+// Schema-level grants may use LIKE wildcards, with \_ and \% as literals
+function matchesGrantSchema(pattern: string, schema: string): boolean {
+  if (pattern === "*") return true;
+  const regex = pattern
+    .split(/(\\[_%]|[_%])/)
+    .map((part) => {
+      if (part === "_") return ".";
+      if (part === "%") return ".*";
+      const literal = part.startsWith("\\") ? part.slice(1) : part;
+      return literal.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${regex}$`).test(schema);
+}
+
+async function showGrants(knex: KnexType, sql: string): Promise<string[]> {
+  const [rows] = await knex.raw(sql);
+  return rows.map((row: Record<string, string>) => Object.values(row)[0]);
+}
+
+// Grants are read once per session; a failed read is retried on next use
+const grantCache: { grants: Grants | null } = {
+  grants: null,
+};
+
+async function loadGrants(knex: KnexType): Promise<Grants> {
+  if (grantCache.grants) return grantCache.grants;
+
+  const [[{ user }]] = await knex.raw("SELECT CURRENT_USER() AS user");
+  let lines = await showGrants(knex, "SHOW GRANTS");
+
+  // MySQL 8 lists granted roles without their privileges unless asked to
+  // expand them; MariaDB has no USING, so its role lines are left as they are
+  const roles = lines
+    .filter((line) => !/ ON /i.test(line))
+    .map((line) => line.match(/^GRANT (.+) TO /i)?.[1])
+    .filter((roleList): roleList is string => Boolean(roleList));
+  const server = await getServerInfo(knex);
+  if (roles.length > 0 && server.flavor === "mysql") {
+    lines = await showGrants(
+      knex,
+      `SHOW GRANTS FOR CURRENT_USER() USING ${roles.join(", ")}`,
+    );
+  }
+
+  grantCache.grants = {
+    user,
+    rules: lines
+      .map(parseGrant)
+      .filter((rule): rule is GrantRule => rule !== null),
+  };
+  return grantCache.grants;
+}
+
+function hasTablePrivilege(
+  rules: GrantRule[],
+  schema: string,
+  table: string,
+  privilege: string,
+): boolean {
+  return rules.some(
+    (rule) =>
+      matchesGrantSchema(rule.schema, schema) &&
+      (rule.table === "*" || rule.table === table) &&
+      (rule.privileges.includes("ALL") || rule.privileges.includes(privilege)),
+  );
+}
+
+// ALTER TABLE needs ALTER, CREATE and INSERT on the table
+function getTableAccess(
+  rules: GrantRule[],
+  tables: TableSelection[],
+): Map<string, TableAccess> {
+  const access = new Map<string, TableAccess>();
+  for (const { schema, table } of tables) {
+    const has = (privilege: string) =>
+      hasTablePrivilege(rules, schema, table, privilege);
+    access.set(`${schema}.${table}`, {
+      schema,
+      table,
+      select: has("SELECT"),
+      update: has("UPDATE"),
+      alter: has("ALTER") && has("CREATE") && has("INSERT"),
+    });
+  }
+  return access;
+}
+
+// Used by the action menu; without readable grants nothing is disabled
+async function loadTableAccess(
+  knex: KnexType,
+  columns: ColumnInfo[],
+): Promise<Map<string, TableAccess> | null> {
+  if (columns.length === 0) return null;
+  try {
+    const { rules } = await loadGrants(knex);
+    return getTableAccess(
+      rules,
+      listTableGroups(columns).map(({ schema, table }) => ({ schema, table })),
+    );
+  } catch (error) {
+    console.log(
+      chalk.yellow(
+        `⚠️  Could not read grants: ${error instanceof Error ? error.message : error}`,
+      ),
+    );
+    return null;
+  }
+}
+
+async function preflightPrivileges(
+  knex: KnexType,
+  schemas: string[],
+): Promise<void> {
+  const spinner = ora("Checking privileges...").start();
+  let tables: TableSelection[];
+  let grants: Grants;
+  try {
+    tables = (
+      await knex("information_schema.COLUMNS")
+        .distinct("TABLE_SCHEMA", "TABLE_NAME")
+        .whereIn("TABLE_SCHEMA", schemas)
+        .whereIn("DATA_TYPE", DATE_DATA_TYPES)
+    ).map((row: { TABLE_SCHEMA: string; TABLE_NAME: string }) => ({
+      schema: row.TABLE_SCHEMA,
+      table: row.TABLE_NAME,
+    }));
+    grants = await loadGrants(knex);
+  } catch (error) {
+    // The report is advisory; the scan itself shows what is readable
+    spinner.warn(
+      `Could not check privileges: ${error instanceof Error ? error.message : error}`,
+    );
+    return;
+  }
+  spinner.stop();
+  const { user, rules } = grants;
+
+  displayPrivilegeReport(user, schemas, [
+    ...getTableAccess(rules, tables).values(),
+  ]);
+}
+
+function displayPrivilegeReport(
+  user: string,
+  schemas: string[],
+  access: TableAccess[],
+): void {
+  const mark = (count: number, total: number, label: string) =>
+    count === total
+      ? chalk.green(`✓ ${label}`)
+      : chalk.yellow(`✗ ${label} (${count}/${total})`);
+
+  console.log(chalk.bold(`\n🔐 Privileges of ${user}`));
+  console.log(chalk.gray("─".repeat(60)));
+  for (const schema of schemas) {
+    const tables = access.filter((a) => a.schema === schema);
+    const count = (key: "select" | "update" | "alter") =>
+      tables.filter((a) => a[key]).length;
+    console.log(
+      `   ${schema.padEnd(25)}${String(tables.length).padEnd(6)}tables  ` +
+        [
+          mark(count("select"), tables.length, "SELECT"),
+          mark(count("update"), tables.length, "UPDATE"),
+          mark(count("alter"), tables.length, "ALTER"),
+        ].join("  "),
+    );
+
+    const limited = tables.filter((a) => !a.select || !a.update || !a.alter);
+    for (const a of limited.slice(0, 10)) {
+      const missing = [
+        !a.select && "SELECT",
+        !a.update && "UPDATE",
+        !a.alter && "ALTER",
+      ].filter(Boolean);
+      console.log(chalk.gray(`      ✗ ${a.table}: no ${missing.join(", ")}`));
+    }
+    if (limited.length > 10) {
+      console.log(chalk.gray(`      ... and ${limited.length - 10} more`));
+    }
+  }
+  console.log();
+}
+
+// ============== Scanning Logic ==============
+// Date columns that are the first column of some index
+async function getIndexedColumns(
+  knex: KnexType,
+  schemas: string[],
+): Promise<Set<string>> {
+  const rows = await knex("information_schema.STATISTICS")
+    .select("TABLE_SCHEMA", "TABLE_NAME", "COLUMN_NAME")
+    .whereIn("TABLE_SCHEMA", schemas)
+    .where("SEQ_IN_INDEX", 1);
+
+  return new Set(
+    rows.map(
+      (row: {
+        TABLE_SCHEMA: string;
+        TABLE_NAME: string;
+        COLUMN_NAME: string;
+      }) => `${row.TABLE_SCHEMA}.${row.TABLE_NAME}.${row.COLUMN_NAME}`,
+    ),
+  );
+}
+
+// MySQL 8 caches information_schema.TABLES statistics for a day by default,
+// which would hide recent writes from the fingerprints
+async function getTableStatistics(
+  knex: KnexType,
+  schemas: string[],
+): Promise<
+  Map<
+    string,
+    { tableRows: number; updateTime: string | null; checksum: number | null }
+  >
+> {
+  const server = await getServerInfo(knex);
+  const rows = await knex.transaction(async (trx) => {
+    if (server.flavor === "mysql" && server.major >= 8) {
+      await trx.raw("SET SESSION information_schema_stats_expiry = 0");
+    }
+    return trx("information_schema.TABLES")
+      .select(
+        "TABLE_SCHEMA",
+        "TABLE_NAME",
+        "TABLE_ROWS",
+        "UPDATE_TIME",
+        "CHECKSUM",
+      )
+      .whereIn("TABLE_SCHEMA", schemas);
+  });
+
+  return new Map(
+    rows.map(
+      (row: {
+        TABLE_SCHEMA: string;
+        TABLE_NAME: string;
+        TABLE_ROWS: number | null;
+        UPDATE_TIME: string | null;
+        CHECKSUM: number | null;
+      }) => [
+        `${row.TABLE_SCHEMA}.${row.TABLE_NAME}`,
+        {
+          tableRows: Number(row.TABLE_ROWS ?? 0),
+          updateTime: row.UPDATE_TIME ?? null,
+          checksum: row.CHECKSUM === null ? null : Number(row.CHECKSUM),
+        },
+      ],
+    ),
+  );
+}
+
+// MAX() of a single-column primary key is answered from the index, so it is
+// a cheap way to notice inserts
+async function getMaxPrimaryKeys(
+  knex: KnexType,
+  schemas: string[],
+  tables: Set<string>,
+): Promise<Map<string, string | null>> {
+  const rows = await knex("information_schema.KEY_COLUMN_USAGE")
+    .select("TABLE_SCHEMA", "TABLE_NAME", "COLUMN_NAME")
+    .whereIn("TABLE_SCHEMA", schemas)
+    .where("CONSTRAINT_NAME", "PRIMARY");
+  const keys = new Map<
+    string,
+    { schema: string; table: string; columns: string[] }
+  >();
+  for (const row of rows as {
+    TABLE_SCHEMA: string;
+    TABLE_NAME: string;
+    COLUMN_NAME: string;
+  }[]) {
+    const key = `${row.TABLE_SCHEMA}.${row.TABLE_NAME}`;
+    if (!keys.has(key)) {
+      keys.set(key, {
+        schema: row.TABLE_SCHEMA,
+        table: row.TABLE_NAME,
+        columns: [],
+      });
+    }
+    keys.get(key)!.columns.push(row.COLUMN_NAME);
+  }
+
+  const maxKeys = new Map<string, string | null>();
+  for (const [key, { schema, table, columns }] of keys) {
+    if (!tables.has(key) || columns.length !== 1) continue;
+    try {
+      const result = await knex.raw(
+        `SELECT MAX(\`${columns[0]}\`) AS maxKey FROM \`${schema}\`.\`${table}\``,
+      );
+      const maxKey = result[0][0].maxKey;
+      maxKeys.set(key, maxKey === null ? null : String(maxKey));
+    } catch (error) {
+      // Leave it out; the table is then compared without it
+    }
+  }
+  return maxKeys;
+}
+
+async function listTableScans(
+  knex: KnexType,
+  schemas: string[],
+): Promise<TableScan[]> {
+  const columns = await getDateColumns(knex, schemas);
+  const statistics = await getTableStatistics(knex, schemas);
+  const maxKeys = await getMaxPrimaryKeys(
+    knex,
+    schemas,
+    new Set(columns.map((c) => `${c.TABLE_SCHEMA}.${c.TABLE_NAME}`)),
+  );
+
+  const scans = new Map<string, TableScan>();
+  for (const col of columns) {
+    const key = `${col.TABLE_SCHEMA}.${col.TABLE_NAME}`;
+    if (!scans.has(key)) {
+      const stats = statistics.get(key);
+      scans.set(key, {
+        schema: col.TABLE_SCHEMA,
+        table: col.TABLE_NAME,
+        columns: [],
+        estimatedRows: stats?.tableRows ?? 0,
+        fingerprint: {
+          schema: col.TABLE_SCHEMA,
+          table: col.TABLE_NAME,
+          updateTime: stats?.updateTime ?? null,
+          tableRows: stats?.tableRows ?? 0,
+          checksum: stats?.checksum ?? null,
+          maxPrimaryKey: maxKeys.get(key) ?? null,
+        },
+      });
+    }
+    scans.get(key)!.columns.push(col);
+  }
+  return [...scans.values()];
+}
+
+// Row counts and the max primary key only catch inserts and deletes, so a
+// table counts as unchanged only when UPDATE_TIME or a live CHECKSUM can vouch
+// for updates too. InnoDB forgets UPDATE_TIME on restart, which makes every
+// table look changed afterwards.
+function isTableUnchanged(
+  previous: TableFingerprint | undefined,
+  current: TableFingerprint,
+): boolean {
+  if (!previous) return false;
+  if (current.updateTime === null && current.checksum === null) return false;
+  return (
+    previous.updateTime === current.updateTime &&
+    previous.checksum === current.checksum &&
+    previous.tableRows === current.tableRows &&
+    previous.maxPrimaryKey === current.maxPrimaryKey
+  );
+}
+
+function isColumnRedefined(
+  previous: ColumnInfo,
+  current: Omit<ColumnInfo, "badRowCount" | "badRowCounts">,
+): boolean {
+  return (
+    previous.DATA_TYPE !== current.DATA_TYPE ||
+    previous.IS_NULLABLE !== current.IS_NULLABLE ||
+    previous.COLUMN_DEFAULT !== current.COLUMN_DEFAULT
+  );
+}
+
+// Splits the tables into columns that can keep their cached counts and
+// scans for the rest: every column of a changed table, and in unchanged
+// tables only new, redefined or previously failed columns
+function planIncrementalScan(
+  scans: TableScan[],
+  schemas: string[],
+  previous: ScanResult,
+): { scans: TableScan[]; reused: ColumnInfo[]; changes: ScanChanges } {
+  const columnKey = (c: {
+    TABLE_SCHEMA: string;
+    TABLE_NAME: string;
+    COLUMN_NAME: string;
+  }) => `${c.TABLE_SCHEMA}.${c.TABLE_NAME}.${c.COLUMN_NAME}`;
+  const previousColumns = new Map(
+    previous.columns.map((c) => [columnKey(c), c]),
+  );
+  const previousSchemas = new Set(previous.columns.map((c) => c.TABLE_SCHEMA));
+  const previousFingerprints = new Map(
+    previous.fingerprints.map((f) => [`${f.schema}.${f.table}`, f]),
+  );
+
+  const changes: ScanChanges = {
+    reusedColumns: 0,
+    rescannedTables: 0,
+    added: [],
+    dropped: [],
+    redefined: [],
+  };
+  const toScan: TableScan[] = [];
+  const reused: ColumnInfo[] = [];
+  const current = new Set<string>();
+
+  for (const scan of scans) {
+    const unchanged = isTableUnchanged(
+      previousFingerprints.get(`${scan.schema}.${scan.table}`),
+      scan.fingerprint,
+    );
+    const columns: TableScan["columns"] = [];
+    for (const col of scan.columns) {
+      const key = columnKey(col);
+      const cached = previousColumns.get(key);
+      current.add(key);
+      if (!cached) {
+        // Schemas that were not scanned before are new, not added to
+        if (previousSchemas.has(col.TABLE_SCHEMA)) changes.added.push(key);
+        columns.push(col);
+      } else if (isColumnRedefined(cached, col)) {
+        changes.redefined.push(key);
+        columns.push(col);
+      } else if (!unchanged || cached.badRowCount === -1) {
+        columns.push(col);
+      } else {
+        reused.push(cached);
+      }
+    }
+    if (columns.length > 0) {
+      toScan.push({ ...scan, columns });
+      changes.rescannedTables++;
+    }
+  }
+
+  changes.dropped = previous.columns
+    .filter((c) => schemas.includes(c.TABLE_SCHEMA))
+    .map(columnKey)
+    .filter((key) => !current.has(key));
+  changes.reusedColumns = reused.length;
+  return { scans: toScan, reused, changes };
+}
+
+function displayScanChanges(changes: ScanChanges): void {
+  console.log(
+    chalk.gray(
+      `\n♻️  Kept cached counts for ${changes.reusedColumns} column(s) in unchanged tables, rescanned ${changes.rescannedTables} table(s).`,
+    ),
+  );
+  for (const key of changes.added) {
+    console.log(chalk.green(`   + ${key} (added)`));
+  }
+  for (const key of changes.dropped) {
+    console.log(chalk.red(`   - ${key} (dropped)`));
+  }
+  for (const key of changes.redefined) {
+    console.log(chalk.yellow(`   ~ ${key} (definition changed)`));
+  }
+  console.log();
+}
+
+// Wilson score interval for a proportion, at 95% confidence by default
+function wilsonInterval(
+  successes: number,
+  trials: number,
+  z = 1.96,
+): [number, number] {
+  if (trials === 0) return [0, 1];
+  const p = successes / trials;
+  const denominator = 1 + (z * z) / trials;
+  const center = p + (z * z) / (2 * trials);
+  const margin =
+    z * Math.sqrt((p * (1 - p)) / trials + (z * z) / (4 * trials * trials));
+  return [
+    Math.max(0, (center - margin) / denominator),
+    Math.min(1, (center + margin) / denominator),
+  ];
+}
+
+// Scales the bad rows seen in the sampled ranges up to the table. The ranges
+// are clusters, so the interval uses the variance between ranges: when bad
+// rows bunch up in a few ranges, the sample is worth fewer independent rows.
+function estimateFromSample(
+  ranges: { rows: number; counts: BadRowCounts }[],
+  tableRows: number,
+  z = 1.96,
+): { counts: BadRowCounts; total: number; interval: [number, number] } {
+  const read = ranges.filter((r) => r.rows > 0);
+  const sampled = read.reduce((sum, r) => sum + r.rows, 0);
+  const sum = read.reduce(
+    (acc, r) => ({
+      zero: acc.zero + r.counts.zero,
+      partialZero: acc.partialZero + r.counts.partialZero,
+      invalid: acc.invalid + r.counts.invalid,
+    }),
+    EMPTY_BAD_ROW_COUNTS,
+  );
+  const seen = totalBadRows(sum);
+  const rows = Math.max(tableRows, sampled);
+  if (sampled === 0) {
+    return { counts: EMPTY_BAD_ROW_COUNTS, total: 0, interval: [0, rows] };
+  }
+
+  const p = seen / sampled;
+  let effective = sampled;
+  if (read.length > 1 && p > 0 && p < 1) {
+    const clusterVariance =
+      ((read.length / (read.length - 1)) *
+        read.reduce(
+          (acc, r) => acc + (totalBadRows(r.counts) - p * r.rows) ** 2,
+          0,
+        )) /
+      (sampled * sampled);
+    const designEffect = Math.max(
+      1,
+      clusterVariance / ((p * (1 - p)) / sampled),
+    );
+    effective = sampled / designEffect;
+  }
+  const [low, high] = wilsonInterval(p * effective, effective, z);
+
+  const scale = rows / sampled;
+  const counts: BadRowCounts = {
+    zero: Math.round(sum.zero * scale),
+    partialZero: Math.round(sum.partialZero * scale),
+    invalid: Math.round(sum.invalid * scale),
+  };
+  // Rows seen in the sample certainly exist, so they bound the estimate
+  const total = Math.max(totalBadRows(counts), seen);
+  return {
+    counts,
+    total,
+    interval: [
+      Math.max(seen, Math.floor(low * rows)),
+      Math.max(total, Math.ceil(high * rows)),
+    ],
+  };
+}
+
+function shouldSample(scan: TableScan, options: ScanOptions): boolean {
+  return (
+    options.sampleAboveRows > 0 && scan.estimatedRows > options.sampleAboveRows
+  );
+}
+
+// Bounds of a single integer primary key, the only kind random start keys
+// can be drawn from
+async function getIntegerKeyRange(
+  knex: KnexType,
+  schema: string,
+  table: string,
+  primaryKey: string[],
+): Promise<{ pk: string; lo: number; hi: number } | null> {
+  if (primaryKey.length !== 1) return null;
+  const [pk] = primaryKey;
+  const keyColumn = await knex("information_schema.COLUMNS")
+    .select("DATA_TYPE")
+    .where({ TABLE_SCHEMA: schema, TABLE_NAME: table, COLUMN_NAME: pk })
+    .first();
+  if (!INTEGER_DATA_TYPES.includes(keyColumn?.DATA_TYPE)) return null;
+
+  const bounds = await knex.raw(
+    `SELECT MIN(\`${pk}\`) AS lo, MAX(\`${pk}\`) AS hi FROM \`${schema}\`.\`${table}\``,
+  );
+  const { lo, hi } = bounds[0][0];
+  if (lo === null) return null;
+  return { pk, lo: Number(lo), hi: Number(hi) };
+}
+
+function randomKey(range: { lo: number; hi: number }): number {
+  return Math.floor(range.lo + Math.random() * (range.hi - range.lo + 1));
+}
+
+// Reads runs of SAMPLE_RANGE_ROWS rows in primary-key order from random start
+// keys and scales the bad-row share up to the table's estimated row count.
+// Returns null when the table has no single integer primary key, so the
+// caller falls back to an exact count.
+async function sampleTable(
+  knex: KnexType,
+  scan: TableScan,
+  sampleSize: number,
+): Promise<ColumnInfo[] | null> {
+  const primaryKey = await getPrimaryKeyColumns(knex, scan.schema, scan.table);
+  const keyRange = await getIntegerKeyRange(
+    knex,
+    scan.schema,
+    scan.table,
+    primaryKey,
+  );
+  if (!keyRange) return null;
+  const { pk } = keyRange;
+
+  const table = `\`${scan.schema}\`.\`${scan.table}\``;
+
+  const rangeCount = Math.ceil(sampleSize / SAMPLE_RANGE_ROWS);
+  const columnList = scan.columns.map((c) => `\`${c.COLUMN_NAME}\``).join(", ");
+  // One list of sampled ranges per column
+  const ranges = scan.columns.map(
+    () => [] as { rows: number; counts: BadRowCounts }[],
+  );
+
+  for (let first = 0; first < rangeCount; first += SAMPLE_RANGES_PER_QUERY) {
+    const parts: string[] = [];
+    for (
+      let i = first;
+      i < Math.min(rangeCount, first + SAMPLE_RANGES_PER_QUERY);
+      i++
+    ) {
+      const start = randomKey(keyRange);
+      parts.push(
+        `(SELECT ${i} AS __range, ${columnList} FROM ${table} WHERE \`${pk}\` >= ${start} ORDER BY \`${pk}\` LIMIT ${SAMPLE_RANGE_ROWS})`,
+      );
+    }
+    const result = await knex.raw(
+      `SELECT __range, COUNT(*) AS sampled, ${badRowCountSelects(scan.columns).join(", ")} ` +
+        `FROM (${parts.join(" UNION ALL ")}) AS sample GROUP BY __range`,
+    );
+    for (const row of result[0]) {
+      readBadRowCounts(row, scan.columns).forEach((counts, c) => {
+        ranges[c].push({ rows: Number(row.sampled), counts });
+      });
+    }
+  }
+  if (ranges[0].every((r) => r.rows === 0)) return null;
+
+  return scan.columns.map((col, c) => {
+    const estimate = estimateFromSample(ranges[c], scan.estimatedRows);
+    return {
+      ...col,
+      badRowCount: estimate.total,
+      badRowCounts: estimate.counts,
+      approximate: true,
+      badRowInterval: estimate.interval,
+    };
+  });
+}
+
+// Every column is counted in one pass over the table, except zero dates in
+// indexed columns, which are read from the index. Indexed TIMESTAMP columns
+// can only hold full zero dates, so they need no pass at all.
+async function scanTable(
+  knex: KnexType,
+  scan: TableScan,
+  indexed: Set<string>,
+  options: ScanOptions = DEFAULT_SCAN_OPTIONS,
+): Promise<ColumnInfo[]> {
+  if (shouldSample(scan, options)) {
+    try {
+      const sampled = await sampleTable(knex, scan, options.sampleSize);
+      if (sampled) return sampled;
+    } catch (error) {
+      // Fall through to the exact count, which reports the failure
+    }
+  }
+
+  const columns: CountedColumn[] = scan.columns.map((col) => ({
+    COLUMN_NAME: col.COLUMN_NAME,
+    DATA_TYPE: col.DATA_TYPE,
+    zeroFromIndex:
+      col.DATA_TYPE !== "year" &&
+      indexed.has(`${scan.schema}.${scan.table}.${col.COLUMN_NAME}`),
+  }));
+  const counts = new Map<string, BadRowCounts | null>();
+
+  const shared = columns.filter(
+    (col) => !col.zeroFromIndex || col.DATA_TYPE !== "timestamp",
+  );
+  const tableCounts =
+    shared.length > 0
+      ? await countTableBadRows(knex, scan.schema, scan.table, shared)
+      : null;
+  for (const col of columns) {
+    let colCounts = shared.includes(col)
+      ? (tableCounts?.get(col.COLUMN_NAME) ?? null)
+      : EMPTY_BAD_ROW_COUNTS;
+    if (colCounts && col.zeroFromIndex) {
+      const zero = await countIndexedZeroDates(
+        knex,
+        scan.schema,
+        scan.table,
+        col.COLUMN_NAME,
+        col.DATA_TYPE,
+      );
+      colCounts = zero === null ? null : { ...colCounts, zero };
+    }
+    counts.set(col.COLUMN_NAME, colCounts);
+  }
+
+  return scan.columns.map((col) => {
+    const colCounts = counts.get(col.COLUMN_NAME) ?? null;
+    return {
+      ...col,
+      badRowCount: colCounts ? totalBadRows(colCounts) : -1,
+      badRowCounts: colCounts ?? EMPTY_BAD_ROW_COUNTS,
+    };
+  });
+}
+
+// Runs the worker over the items with at most `concurrency` in flight
+async function runConcurrently<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length)) },
+    async () => {
+      while (next < items.length) {
+        await worker(items[next++]);
+      }
+    },
+  );
+  await Promise.all(runners);
+}
+
+// With a previous result, only tables and columns that changed since then
+// are scanned; the rest keep their cached counts
+async function scanSchemas(
+  knex: KnexType,
+  schemas: string[],
+  options: ScanOptions = DEFAULT_SCAN_OPTIONS,
+  previous: ScanResult | null = null,
+): Promise<ScanResult> {
+  const spinner = ora("Fetching date columns...").start();
+
+  try {
+    const allScans = await listTableScans(knex, schemas);
+    const fingerprints = allScans.map((scan) => scan.fingerprint);
+    const plan = previous
+      ? planIncrementalScan(allScans, schemas, previous)
+      : null;
+    const scans = plan ? plan.scans : allScans;
+    const indexed = await getIndexedColumns(knex, schemas);
+    const columnCount = scans.reduce((sum, t) => sum + t.columns.length, 0);
+    spinner.text = `Found ${columnCount} date columns in ${scans.length} tables. Scanning for bad data...`;
+
+    // Throughput and ETA are based on information_schema row estimates;
+    // a sampled table only costs its sample
+    const rowsToRead = (scan: TableScan) =>
+      shouldSample(scan, options)
+        ? Math.min(scan.estimatedRows, options.sampleSize)
+        : scan.estimatedRows;
+    const totalRows = scans.reduce((sum, t) => sum + rowsToRead(t), 0);
+    const startedAt = Date.now();
+    const results = new Map<TableScan, ColumnInfo[]>();
+    let rowsDone = 0;
+
+    await runConcurrently(scans, options.concurrency, async (scan) => {
+      results.set(scan, await scanTable(knex, scan, indexed, options));
+      rowsDone += rowsToRead(scan);
+
+      const elapsed = (Date.now() - startedAt) / 1000;
+      const rate = elapsed > 0 ? rowsDone / elapsed : 0;
+      const eta =
+        rate > 0
+          ? `, ETA ${formatDuration((totalRows - rowsDone) / rate)}`
+          : "";
+      spinner.text = `[${results.size}/${scans.length} tables] ~${Math.round(rate).toLocaleString("en-US")} rows/s${eta} - scanned ${scan.schema}.${scan.table}`;
+    });
+
+    const scanned = scans.flatMap((scan) => results.get(scan) ?? []);
+    const estimated = scanned.filter((c) => c.approximate).length;
+    spinner.succeed(
+      `Scanned ${columnCount} columns in ${scans.length} tables across ${schemas.length} schema(s) in ${formatDuration((Date.now() - startedAt) / 1000)}` +
+        (estimated > 0 ? ` (${estimated} estimated from samples).` : "."),
+    );
+    if (!plan) {
+      return { columns: scanned, fingerprints };
+    }
+
+    displayScanChanges(plan.changes);
+    // Keep the information_schema order a full scan would produce
+    const byKey = new Map(
+      [...plan.reused, ...scanned].map((c) => [
+        `${c.TABLE_SCHEMA}.${c.TABLE_NAME}.${c.COLUMN_NAME}`,
+        c,
+      ]),
+    );
+    const columns = allScans.flatMap((scan) =>
+      scan.columns.flatMap((c) => {
+        const col = byKey.get(
+          `${c.TABLE_SCHEMA}.${c.TABLE_NAME}.${c.COLUMN_NAME}`,
+        );
+        return col ? [col] : [];
+      }),
+    );
+    return { columns, fingerprints };
+  } catch (error) {
+    spinner.fail("Failed to scan schemas.");
+    throw error;
+  }
+}
+
+async function rescanColumns(
+  knex: KnexType,
+  existingColumns: ColumnInfo[],
+  affectedColumns: ColumnInfo[],
+): Promise<ColumnInfo[]> {
+  if (affectedColumns.length === 0) {
+    return existingColumns;
+  }
+
+  const spinner = ora(
+    `Rescanning ${affectedColumns.length} affected column(s)...`,
+  ).start();
+
+  const affectedKeys = new Set(
+    affectedColumns.map(
+      (c) => `${c.TABLE_SCHEMA}.${c.TABLE_NAME}.${c.COLUMN_NAME}`,
+    ),
+  );
+
+  const updatedColumns: ColumnInfo[] = [];
+  let rescanned = 0;
+
+  for (const col of existingColumns) {
+    const key = `${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME}`;
+
+    if (affectedKeys.has(key)) {
+      rescanned++;
+      spinner.text = `[${rescanned}/${affectedColumns.length}] Rescanning ${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME}...`;
+
+      // Re-fetch column info from information_schema for updated nullability
+      const colInfo = await knex("information_schema.COLUMNS")
+        .select("IS_NULLABLE", "DATA_TYPE")
+        .where({
+          TABLE_SCHEMA: col.TABLE_SCHEMA,
+          TABLE_NAME: col.TABLE_NAME,
+          COLUMN_NAME: col.COLUMN_NAME,
+        })
+        .first();
+
+      const dataType: DateDataType = colInfo?.DATA_TYPE ?? col.DATA_TYPE;
+      const counts = await countBadRows(
+        knex,
+        col.TABLE_SCHEMA,
+        col.TABLE_NAME,
+        col.COLUMN_NAME,
+        dataType,
+      );
+
+      updatedColumns.push({
+        ...col,
+        IS_NULLABLE: colInfo?.IS_NULLABLE ?? col.IS_NULLABLE,
+        DATA_TYPE: dataType,
+        badRowCount: counts ? totalBadRows(counts) : -1,
+        badRowCounts: counts ?? EMPTY_BAD_ROW_COUNTS,
+        approximate: undefined,
+        badRowInterval: undefined,
+      });
+    } else {
+      updatedColumns.push(col);
+    }
+  }
+
+  spinner.succeed(`Rescanned ${affectedColumns.length} column(s).`);
+  return updatedColumns;
+}
+
+// ============== Display Functions ==============
+function displayResults(columns: ColumnInfo[]): void {
+  // Group by schema
+  const bySchema = columns.reduce(
+    (acc, col) => {
+      if (!acc[col.TABLE_SCHEMA]) {
+        acc[col.TABLE_SCHEMA] = [];
+      }
+      acc[col.TABLE_SCHEMA].push(col);
+      return acc;
+    },
+    {} as Record<string, ColumnInfo[]>,
+  );
+
+  for (const [schema, schemaCols] of Object.entries(bySchema)) {
+    const badCount = schemaCols.filter((c) => c.badRowCount > 0).length;
+    const timestampCount = schemaCols.filter(
+      (c) => c.DATA_TYPE === "timestamp",
+    ).length;
+
+    console.log(
+      "\n" +
+        chalk.cyan.bold(`📁 ${schema}`) +
+        chalk.gray(
+          ` (${schemaCols.length} columns, ${badCount} with bad data, ${timestampCount} timestamps)`,
+        ),
+    );
+    console.log(chalk.bold("─".repeat(120)));
+    console.log(
+      chalk.bold(
+        "  Table.Column".padEnd(45) +
+          "Type".padEnd(12) +
+          "Nullable".padEnd(10) +
+          "Zero".padEnd(10) +
+          "Partial".padEnd(10) +
+          "Invalid".padEnd(10) +
+          "Status",
+      ),
+    );
+    console.log(chalk.bold("─".repeat(120)));
+
+    for (const col of schemaCols) {
+      const name = `${col.TABLE_NAME}.${col.COLUMN_NAME}`.padEnd(45);
+      const type = col.DATA_TYPE.padEnd(12);
+      const nullable = col.IS_NULLABLE.padEnd(10);
+      const approx = col.approximate ? "~" : "";
+      const badRows =
+        col.badRowCount === -1
+          ? "ERROR".padEnd(30)
+          : `${approx}${col.badRowCounts.zero}`.padEnd(10) +
+            `${approx}${col.badRowCounts.partialZero}`.padEnd(10) +
+            `${approx}${col.badRowCounts.invalid}`.padEnd(10);
+
+      let status = chalk.green("✓ OK");
+      switch (getColumnStatus(col)) {
+        case "scan_error":
+          status = chalk.red("✗ Could not scan");
+          break;
+        case "bad_data_not_nullable":
+          status = chalk.red(
+            `⚠ ${getBadDateLabels(col).join(", ")}, NOT NULLABLE`,
+          );
+          break;
+        case "bad_data":
+          status = chalk.yellow(`⚠ ${getBadDateLabels(col).join(", ")}`);
+          break;
+        case "unverified":
+          status = chalk.yellow("? None sampled, not verified");
+          break;
+        case "2038_risk":
+          status = chalk.blue("◐ 2038 risk");
+          break;
+      }
+
+      console.log(`  ${name}${type}${nullable}${badRows}${status}`);
+    }
+  }
+
+  console.log();
+}
+
+function summarizeColumns(
+  columns: ColumnInfo[],
+  schemas: string[],
+): ScanSummary {
+  return {
+    schemas: schemas.length,
+    columns: columns.length,
+    timestamps: columns.filter((c) => c.DATA_TYPE === "timestamp").length,
+    badColumns: columns.filter((c) => c.badRowCount > 0).length,
+    fixable: columns.filter((c) => c.badRowCount > 0 && c.IS_NULLABLE === "YES")
+      .length,
+    unfixable: columns.filter(
+      (c) => c.badRowCount > 0 && c.IS_NULLABLE === "NO",
+    ).length,
+    scanErrors: columns.filter((c) => c.badRowCount === -1).length,
+    unverified: columns.filter((c) => getColumnStatus(c) === "unverified")
+      .length,
+    badRows: columns
+      .filter((c) => c.badRowCount > 0)
+      .reduce(
+        (acc, c) => ({
+          zero: acc.zero + c.badRowCounts.zero,
+          partialZero: acc.partialZero + c.badRowCounts.partialZero,
+          invalid: acc.invalid + c.badRowCounts.invalid,
+        }),
+        EMPTY_BAD_ROW_COUNTS,
+      ),
+  };
+}
+
+function displaySummary(columns: ColumnInfo[], schemas: string[]): void {
+  const summary = summarizeColumns(columns, schemas);
+
+  console.log(chalk.bold("\n📊 Summary"));
+  console.log(chalk.gray("─".repeat(40)));
+  console.log(`   Schemas:        ${chalk.cyan(summary.schemas)}`);
+  console.log(`   Total Columns:  ${chalk.cyan(summary.columns)}`);
+  console.log(
+    `   Timestamps:     ${chalk.blue(summary.timestamps)} ${chalk.gray("(2038 risk)")}`,
+  );
+  console.log(
+    `   Bad Data:       ${summary.badColumns > 0 ? chalk.yellow(summary.badColumns) : chalk.green(summary.badColumns)}`,
+  );
+  console.log(
+    `   ├─ Fixable:     ${summary.fixable > 0 ? chalk.yellow(summary.fixable) : chalk.green(summary.fixable)}`,
+  );
+  console.log(
+    `   └─ Unfixable:   ${summary.unfixable > 0 ? chalk.red(summary.unfixable) : chalk.green(summary.unfixable)}`,
+  );
+  console.log(
+    `   Bad Rows:       ${chalk.cyan(totalBadRows(summary.badRows))}`,
+  );
+  console.log(`   ├─ Zero:        ${chalk.cyan(summary.badRows.zero)}`);
+  console.log(`   ├─ Partial:     ${chalk.cyan(summary.badRows.partialZero)}`);
+  console.log(`   └─ Invalid:     ${chalk.cyan(summary.badRows.invalid)}`);
+  const estimated = columns.filter((c) => c.approximate).length;
+  if (estimated > 0) {
+    console.log(
+      chalk.gray(`   ~ ${estimated} column(s) estimated from samples`),
+    );
+  }
+  if (summary.unverified > 0) {
+    console.log(
+      chalk.yellow(
+        `   ? ${summary.unverified} sampled column(s) showed no bad rows but are not verified`,
+      ),
+    );
+  }
+  console.log();
+}
+
+function displayUnfixable(columns: ColumnInfo[]): void {
+  const unfixable = columns.filter(
+    (c) => mayHaveBadRows(c) && c.IS_NULLABLE === "NO",
+  );
+
+  if (unfixable.length === 0) {
+    console.log(chalk.green("\n✓ No unfixable columns!\n"));
+    return;
+  }
+
+  console.log(
+    chalk.red(
+      "\n⚠️  The following columns have bad data but do NOT allow NULL:",
+    ),
+  );
+  console.log(
+    chalk.red(
+      "   You must either change the column to allow NULL, or provide a default value.\n",
+    ),
+  );
+
+  for (const col of unfixable) {
+    console.log(
+      chalk.red(
+        `   • ${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME}`,
+      ) + chalk.gray(` (${formatBadRowCount(col)} bad rows)`),
+    );
+  }
+
+  console.log();
+}
+
+// ============== Report Export ==============
+function buildReportRows(columns: ColumnInfo[]) {
+  return columns.map((col) => ({
+    schema: col.TABLE_SCHEMA,
+    table: col.TABLE_NAME,
+    column: col.COLUMN_NAME,
+    dataType: col.DATA_TYPE,
+    nullable: col.IS_NULLABLE === "YES",
+    default: col.COLUMN_DEFAULT,
+    status: getColumnStatus(col),
+    badRowCount: col.badRowCount,
+    badRowCounts: col.badRowCounts,
+    approximate: col.approximate ?? false,
+    badRowInterval: col.badRowInterval ?? null,
+    risk2038: col.DATA_TYPE === "timestamp",
+  }));
+}
+
+function escapeCsv(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeXml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function escapeMarkdown(value: unknown): string {
+  return String(value ?? "").replace(/\|/g, "\\|");
+}
+
+function formatJsonReport(
+  columns: ColumnInfo[],
+  context: ReportContext,
+): string {
+  return JSON.stringify(
+    {
+      generatedAt: new Date().toISOString(),
+      host: context.host,
+      port: context.port,
+      schemas: context.schemas,
+      scannedAt: context.scannedAt,
+      summary: summarizeColumns(columns, context.schemas),
+      columns: buildReportRows(columns),
+    },
+    null,
+    2,
+  );
+}
+
+function formatCsvReport(columns: ColumnInfo[]): string {
+  const header = [
+    "schema",
+    "table",
+    "column",
+    "data_type",
+    "nullable",
+    "default",
+    "status",
+    "bad_rows",
+    "zero_dates",
+    "partial_zero_dates",
+    "invalid_dates",
+    "approximate",
+    "bad_rows_low",
+    "bad_rows_high",
+    "risk_2038",
+  ];
+  const lines = buildReportRows(columns).map((row) =>
+    [
+      row.schema,
+      row.table,
+      row.column,
+      row.dataType,
+      row.nullable,
+      row.default,
+      row.status,
+      row.badRowCount,
+      row.badRowCounts.zero,
+      row.badRowCounts.partialZero,
+      row.badRowCounts.invalid,
+      row.approximate,
+      row.badRowInterval?.[0],
+      row.badRowInterval?.[1],
+      row.risk2038,
+    ]
+      .map(escapeCsv)
+      .join(","),
+  );
+  return [header.join(","), ...lines].join("\n") + "\n";
+}
+
+function formatMarkdownReport(
+  columns: ColumnInfo[],
+  context: ReportContext,
+): string {
+  const summary = summarizeColumns(columns, context.schemas);
+  const lines = [
+    "# Date Column Scan Report",
+    "",
+    `- **Host:** ${context.host}:${context.port}`,
+    `- **Schemas:** ${context.schemas.join(", ")}`,
+    `- **Scanned:** ${context.scannedAt ?? "unknown"}`,
+    "",
+    "## Summary",
+    "",
+    "| Metric | Value |",
+    "|--------|-------|",
+    `| Columns | ${summary.columns} |`,
+    `| Timestamps (2038 risk) | ${summary.timestamps} |`,
+    `| Columns with bad data | ${summary.badColumns} |`,
+    `| Fixable | ${summary.fixable} |`,
+    `| Unfixable (NOT NULL) | ${summary.unfixable} |`,
+    `| Scan errors | ${summary.scanErrors} |`,
+    `| Sampled, not verified | ${summary.unverified} |`,
+    `| Zero date rows | ${summary.badRows.zero} |`,
+    `| Partial zero date rows | ${summary.badRows.partialZero} |`,
+    `| Invalid date rows | ${summary.badRows.invalid} |`,
+  ];
+
+  const rows = buildReportRows(columns);
+  for (const schema of new Set(rows.map((r) => r.schema))) {
+    lines.push(
+      "",
+      `## ${escapeMarkdown(schema)}`,
+      "",
+      "| Table.Column | Type | Nullable | Zero | Partial | Invalid | Status |",
+      "|--------------|------|----------|------|---------|---------|--------|",
+    );
+    // Counts prefixed with ~ were estimated from a sample
+    for (const row of rows.filter((r) => r.schema === schema)) {
+      const approx = row.approximate ? "~" : "";
+      const counts =
+        row.status === "scan_error"
+          ? "ERROR | ERROR | ERROR"
+          : `${approx}${row.badRowCounts.zero} | ${approx}${row.badRowCounts.partialZero} | ${approx}${row.badRowCounts.invalid}`;
+      lines.push(
+        `| ${escapeMarkdown(`${row.table}.${row.column}`)} | ${row.dataType} | ${row.nullable ? "YES" : "NO"} | ${counts} | ${row.status} |`,
+      );
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+// Each column is a test case: scan errors are reported as errors, bad data
+// and 2038 risk as failures, so CI dashboards surface them per column.
+function formatJunitReport(columns: ColumnInfo[]): string {
+  const rows = buildReportRows(columns);
+  const isFailure = (status: ColumnStatus) =>
+    status !== "ok" && status !== "scan_error";
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="db-date-fixer" tests="${rows.length}" failures="${rows.filter((r) => isFailure(r.status)).length}" errors="${rows.filter((r) => r.status === "scan_error").length}">`,
+  ];
+
+  for (const schema of new Set(rows.map((r) => r.schema))) {
+    const schemaRows = rows.filter((r) => r.schema === schema);
+    lines.push(
+      `  <testsuite name="${escapeXml(schema)}" tests="${schemaRows.length}" failures="${schemaRows.filter((r) => isFailure(r.status)).length}" errors="${schemaRows.filter((r) => r.status === "scan_error").length}">`,
+    );
+    for (const row of schemaRows) {
+      const open = `    <testcase classname="${escapeXml(`${row.schema}.${row.table}`)}" name="${escapeXml(row.column)}">`;
+      const details =
+        `${row.dataType}, nullable=${row.nullable ? "YES" : "NO"}, zero=${row.badRowCounts.zero}, partial=${row.badRowCounts.partialZero}, invalid=${row.badRowCounts.invalid}` +
+        (row.badRowInterval
+          ? `, estimated from a sample (95% CI ${row.badRowInterval[0]}-${row.badRowInterval[1]})`
+          : "");
+      const badRows = `${row.approximate ? "~" : ""}${row.badRowCount}`;
+      switch (row.status) {
+        case "ok":
+          lines.push(open.replace(/>$/, " />"));
+          continue;
+        case "scan_error":
+          lines.push(
+            open,
+            `      <error type="scan_error" message="Could not scan column" />`,
+          );
+          break;
+        case "bad_data_not_nullable":
+          lines.push(
+            open,
+            `      <failure type="bad_data_not_nullable" message="${badRows} bad rows in a NOT NULL column">${escapeXml(details)}</failure>`,
+          );
+          break;
+        case "bad_data":
+          lines.push(
+            open,
+            `      <failure type="bad_data" message="${badRows} bad rows">${escapeXml(details)}</failure>`,
+          );
+          break;
+        case "unverified":
+          lines.push(
+            open,
+            `      <failure type="unverified" message="No bad rows in the sample; needs an exact count">${escapeXml(details)}</failure>`,
+          );
+          break;
+        case "2038_risk":
+          lines.push(
+            open,
+            `      <failure type="2038_risk" message="TIMESTAMP column overflows in 2038">${escapeXml(details)}</failure>`,
+          );
+          break;
+      }
+      lines.push("    </testcase>");
+    }
+    lines.push("  </testsuite>");
+  }
+
+  lines.push("</testsuites>");
+  return lines.join("\n") + "\n";
+}
+
+function formatReport(
+  format: Exclude<ReportFormat, "table">,
+  columns: ColumnInfo[],
+  context: ReportContext,
+): string {
+  switch (format) {
+    case "json":
+      return formatJsonReport(columns, context);
+    case "csv":
+      return formatCsvReport(columns);
+    case "markdown":
+      return formatMarkdownReport(columns, context);
+    case "junit":
+      return formatJunitReport(columns);
+  }
+}
+
+// ============== CI Check ==============
+// One "schema.table.column" pattern per line, "*" wildcards and # comments.
+function loadAllowlist(filePath: string): string[] {
+  const allowlistPath = path.resolve(process.cwd(), filePath);
+  return fs
+    .readFileSync(allowlistPath, "utf-8")
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .filter((line) => line.length > 0);
+}
+
+function runCheck(
+  columns: ColumnInfo[],
+  thresholds: CheckThresholds,
+  allowlist: string[],
+): number {
+  const checked = columns.filter(
+    (c) =>
+      !allowlist.some((pattern) =>
+        matchesPattern(
+          `${c.TABLE_SCHEMA}.${c.TABLE_NAME}.${c.COLUMN_NAME}`,
+          pattern,
+        ),
+      ),
+  );
+  const summary = summarizeColumns(checked, []);
+
+  const checks = [
+    {
+      label: "Bad rows",
+      value: totalBadRows(summary.badRows),
+      limit: thresholds.badRows,
+      code: CHECK_EXIT_CODES.badData,
+    },
+    {
+      label: "NOT NULL columns with bad data",
+      value: summary.unfixable,
+      limit: thresholds.unfixable,
+      code: CHECK_EXIT_CODES.unfixable,
+    },
+    {
+      label: "TIMESTAMP columns",
+      value: summary.timestamps,
+      limit: thresholds.timestamps,
+      code: CHECK_EXIT_CODES.timestamps,
+    },
+    {
+      label: "Scan errors",
+      value: summary.scanErrors,
+      limit: thresholds.scanErrors,
+      code: CHECK_EXIT_CODES.scanErrors,
+    },
+    {
+      label: "Sampled columns not verified",
+      value: summary.unverified,
+      limit: thresholds.unverified,
+      code: CHECK_EXIT_CODES.unverified,
+    },
+  ];
+
+  console.log(chalk.bold("\n🚦 Check"));
+  console.log(chalk.gray("─".repeat(60)));
+  console.log(
+    chalk.gray(
+      `   ${checked.length} column(s) checked, ${columns.length - checked.length} allowlisted`,
+    ),
+  );
+
+  let exitCode = 0;
+  for (const check of checks) {
+    const passed = check.value <= check.limit;
+    if (!passed) {
+      exitCode |= check.code;
+    }
+    const line = `${check.label.padEnd(32)}${String(check.value).padEnd(10)}(max ${check.limit})`;
+    console.log(
+      passed
+        ? chalk.green(`   ✓ ${line}`)
+        : chalk.red(`   ✗ ${line} → ${check.code}`),
+    );
+  }
+
+  if (exitCode === 0) {
+    console.log(chalk.green("\n✓ All checks passed.\n"));
+  } else {
+    console.log(chalk.red(`\n✗ Check failed (exit code ${exitCode}).`));
+    if (exitCode & CHECK_EXIT_CODES.unfixable) {
+      displayUnfixable(checked);
+    } else {
+      console.log();
+    }
+  }
+
+  return exitCode;
+}
+
+// ============== Server Audit ==============
+function isZeroDateDefault(col: ColumnInfo): boolean {
+  if (col.DATA_TYPE === "year" || !col.COLUMN_DEFAULT) return false;
+  return (
+    col.COLUMN_DEFAULT.startsWith("0000") ||
+    /-00(?:[- ]|$)/.test(col.COLUMN_DEFAULT)
+  );
+}
+
+function predictFailures(
+  columns: ColumnInfo[],
+  explicitDefaultsForTimestamp: boolean | null,
+): AuditPrediction[] {
+  const predictions: AuditPrediction[] = [];
+  const add = (
+    col: ColumnInfo,
+    trigger: AuditPrediction["trigger"],
+    problem: string,
+  ) =>
+    predictions.push({
+      schema: col.TABLE_SCHEMA,
+      table: col.TABLE_NAME,
+      column: col.COLUMN_NAME,
+      trigger,
+      problem,
+    });
+
+  for (const col of columns) {
+    if (isZeroDateDefault(col)) {
+      add(
+        col,
+        "strict_mode",
+        `DEFAULT '${col.COLUMN_DEFAULT}' is invalid, so every ALTER TABLE on the table fails`,
+      );
+    }
+    if (col.badRowCount > 0) {
+      add(
+        col,
+        "strict_mode",
+        `${getBadDateLabels(col).join(", ")} in ${col.badRowCount} row(s): updating those rows or copying the table fails`,
+      );
+    }
+    if (
+      explicitDefaultsForTimestamp === false &&
+      col.DATA_TYPE === "timestamp" &&
+      col.IS_NULLABLE === "NO" &&
+      col.COLUMN_DEFAULT === null
+    ) {
+      add(
+        col,
+        "upgrade",
+        "NOT NULL TIMESTAMP without a default: with explicit_defaults_for_timestamp=ON (MySQL 8.0 default) inserts that omit it fail",
+      );
+    }
+  }
+  return predictions;
+}
+
+async function auditServer(
+  knex: KnexType,
+  columns: ColumnInfo[],
+): Promise<ServerAudit> {
+  const server = await getServerInfo(knex);
+  const [variables] = await knex.raw(
+    "SHOW GLOBAL VARIABLES WHERE Variable_name IN ('sql_mode', 'explicit_defaults_for_timestamp')",
+  );
+  const globals = new Map<string, string>(
+    variables.map((row: { Variable_name: string; Value: string }) => [
+      row.Variable_name,
+      row.Value,
+    ]),
+  );
+  const session = await knex.raw("SELECT @@SESSION.sql_mode AS mode");
+  const globalSqlMode = parseSqlMode(globals.get("sql_mode"));
+  const explicitDefaults = globals.get("explicit_defaults_for_timestamp");
+  const explicitDefaultsForTimestamp =
+    explicitDefaults === undefined ? null : explicitDefaults === "ON";
+
+  return {
+    server,
+    sqlMode: {
+      global: globalSqlMode,
+      session: parseSqlMode(session[0][0].mode),
+    },
+    missingStrictModes: STRICT_DATE_SQL_MODES.filter(
+      (flag) => !globalSqlMode.includes(flag),
+    ),
+    explicitDefaultsForTimestamp,
+    timeZone: await getTimeZoneInfo(knex),
+    predictions: predictFailures(columns, explicitDefaultsForTimestamp),
+  };
+}
+
+function displayAudit(audit: ServerAudit, scanned: boolean): void {
+  const { server, sqlMode, timeZone } = audit;
+  const row = (label: string, value: string) =>
+    console.log(`   ${label.padEnd(34)}${value}`);
+
+  console.log(chalk.bold("\n🩺 Server Audit"));
+  console.log(chalk.gray("─".repeat(60)));
+  row(
+    "Server",
+    `${server.flavor === "mariadb" ? "MariaDB" : "MySQL"} ${server.major}.${server.minor} ${chalk.gray(`(${server.version})`)}`,
+  );
+  row("Global sql_mode", sqlMode.global.join(",") || chalk.gray("(empty)"));
+  row("Session sql_mode", sqlMode.session.join(",") || chalk.gray("(empty)"));
+  row(
+    "Bad-date flags",
+    STRICT_DATE_SQL_MODES.map((flag) =>
+      audit.missingStrictModes.includes(flag)
+        ? chalk.yellow(`✗ ${flag}`)
+        : chalk.green(`✓ ${flag}`),
+    ).join("  "),
+  );
+  row(
+    "explicit_defaults_for_timestamp",
+    audit.explicitDefaultsForTimestamp === null
+      ? chalk.gray("(not supported)")
+      : audit.explicitDefaultsForTimestamp
+        ? "ON"
+        : chalk.yellow("OFF"),
+  );
+  row(
+    "time_zone",
+    `session ${timeZone.session}, global ${timeZone.global}, system ${timeZone.system}`,
+  );
+
+  if (audit.missingStrictModes.length > 0) {
+    console.log(
+      chalk.yellow(
+        `\n⚠️  ${audit.missingStrictModes.join(", ")} not set globally. Enabling them, or upgrading to a version where they are the default, affects the tables below.`,
+      ),
+    );
+  }
+
+  if (!scanned) {
+    console.log(
+      chalk.gray("\nRun a scan to predict which tables would fail.\n"),
+    );
+    return;
+  }
+  if (audit.predictions.length === 0) {
+    console.log(
+      chalk.green(
+        "\n✓ No scanned table is expected to fail under strict mode or an upgrade.\n",
+      ),
+    );
+    return;
+  }
+
+  const tables = new Map<string, AuditPrediction[]>();
+  for (const prediction of audit.predictions) {
+    const key = `${prediction.schema}.${prediction.table}`;
+    tables.set(key, [...(tables.get(key) ?? []), prediction]);
+  }
+  console.log(
+    chalk.red(
+      `\nPredicted failures (${audit.predictions.length} problem(s) in ${tables.size} table(s)):`,
+    ),
+  );
+  for (const [table, predictions] of tables) {
+    console.log(chalk.bold(`  ${table}`));
+    for (const prediction of predictions) {
+      const when =
+        prediction.trigger === "strict_mode" ? "strict mode" : "upgrade";
+      console.log(
+        chalk.gray(`     ✗ ${prediction.column}: ${prediction.problem} `) +
+          chalk.yellow(`[${when}]`),
+      );
+    }
+  }
+  console.log();
+}
+
+// ============== TUI Menus ==============
+function groupBySchemaAndTable(
+  columns: ColumnInfo[],
+): Map<string, Map<string, ColumnInfo[]>> {
+  const result = new Map<string, Map<string, ColumnInfo[]>>();
+
+  for (const col of columns) {
+    if (!result.has(col.TABLE_SCHEMA)) {
+      result.set(col.TABLE_SCHEMA, new Map());
+    }
+    const schemaMap = result.get(col.TABLE_SCHEMA)!;
+    if (!schemaMap.has(col.TABLE_NAME)) {
+      schemaMap.set(col.TABLE_NAME, []);
+    }
+    schemaMap.get(col.TABLE_NAME)!.push(col);
+  }
+
+  return result;
+}
+
+// Flattens groupBySchemaAndTable into one entry per table, in scan order
+function listTableGroups(
+  columns: ColumnInfo[],
+): { schema: string; table: string; cols: ColumnInfo[] }[] {
+  const groups: { schema: string; table: string; cols: ColumnInfo[] }[] = [];
+  for (const [schema, tables] of groupBySchemaAndTable(columns)) {
+    for (const [table, cols] of tables) {
+      groups.push({ schema, table, cols });
+    }
+  }
+  return groups;
+}
+
+// Symbol to indicate user cancelled
+const CANCELLED = Symbol("cancelled");
+
+async function selectTablesGrouped(
+  columns: ColumnInfo[],
+  filterFn: (col: ColumnInfo) => boolean,
+  message: string,
+  getDescription: (cols: ColumnInfo[]) => string,
+): Promise<TableSelection[] | typeof CANCELLED> {
+  const filtered = columns.filter(filterFn);
+
+  if (filtered.length === 0) {
+    console.log(chalk.yellow("\nNo matching columns found.\n"));
+    return [];
+  }
+
+  const grouped = groupBySchemaAndTable(filtered);
+
+  if (inputOptions.tables) {
+    const patterns = inputOptions.tables;
+    const selection: TableSelection[] = [];
+    for (const [schema, tables] of grouped) {
+      for (const table of tables.keys()) {
+        const name = `${schema}.${table}`;
+        // Bare table names match in any schema
+        if (
+          patterns.some((p) =>
+            matchesPattern(p.includes(".") ? name : table, p),
+          )
+        ) {
+          selection.push({ schema, table });
+        }
+      }
+    }
+    console.log(
+      chalk.gray(
+        `\n${message} ${selection.length} table(s) matched --tables${selection.length > 0 ? `: ${selection.map((t) => `${t.schema}.${t.table}`).join(", ")}` : ""}`,
+      ),
+    );
+    return selection;
+  }
+
+  if (inputOptions.yes) {
+    const selection = Array.from(grouped).flatMap(([schema, tables]) =>
+      Array.from(tables.keys()).map((table) => ({ schema, table })),
+    );
+    console.log(
+      chalk.gray(
+        `\n${message} all ${selection.length} matching table(s) (--yes)`,
+      ),
+    );
+    return selection;
+  }
+  if (!inputOptions.interactive) {
+    throw new InputRequiredError(
+      `"${message}"`,
+      "Pass --tables <list>, or --yes to select all matching tables.",
+    );
+  }
+
+  // Build choices with schema separators
+  type TableValue = { schema: string; table: string };
+  const choices: Array<
+    { name: string; value: TableValue; checked: boolean } | Separator
+  > = [];
+
+  for (const [schema, tables] of grouped) {
+    const schemaColCount = Array.from(tables.values()).flat().length;
+    choices.push(
+      new Separator(
+        chalk.cyan.bold(`📁 ${schema}`) +
+          chalk.gray(` (${schemaColCount} columns in ${tables.size} tables)`),
+      ),
+    );
+
+    for (const [table, cols] of tables) {
+      const desc = getDescription(cols);
+      choices.push({
+        name: `   ${table}` + chalk.gray(` ${desc}`),
+        value: { schema, table },
+        checked: true,
+      });
+    }
+  }
+
+  const selection = await checkbox<TableValue>({
+    message,
+    choices,
+  });
+
+  if (selection.length === 0) {
+    const confirmEmpty = await select<"proceed" | "cancel">({
+      message: "No tables selected. What would you like to do?",
+      choices: [
+        { name: "❌ Cancel and go back", value: "cancel" },
+        { name: "✅ Proceed anyway (no changes)", value: "proceed" },
+      ],
+    });
+    if (confirmEmpty === "cancel") {
+      return CANCELLED;
+    }
+  }
+
+  return selection;
+}
+
+async function selectAction(
+  columns: ColumnInfo[],
+  dryRun: boolean,
+  access: Map<string, TableAccess> | null = null,
+): Promise<Action> {
+  const fixable = columns.filter(mayHaveBadRows);
+  const unfixable = fixable.filter((c) => c.IS_NULLABLE === "NO");
+  const timestamps = columns.filter((c) => c.DATA_TYPE === "timestamp");
+  const fixableCount = fixable.length;
+  const unfixableCount = unfixable.length;
+  const timestampCount = timestamps.length;
+  const hasCache = columns.length > 0;
+
+  // A dry run only exports statements, so it needs no write privileges
+  const allowedOn = (
+    cols: ColumnInfo[],
+    privilege: "update" | "alter",
+  ): boolean =>
+    dryRun ||
+    !access ||
+    cols.some(
+      (c) =>
+        access.get(`${c.TABLE_SCHEMA}.${c.TABLE_NAME}`)?.[privilege] ?? true,
+    );
+  const missing = (
+    count: number,
+    cols: ColumnInfo[],
+    privilege: "update" | "alter",
+  ): string | false =>
+    count === 0
+      ? hasCache
+        ? "none found"
+        : "scan first"
+      : allowedOn(cols, privilege)
+        ? false
+        : `no ${privilege.toUpperCase()} privilege`;
+
+  const choices: {
+    name: string;
+    value: Action;
+    disabled?: boolean | string;
+  }[] = [
     { name: "🔍 Scan databases (fresh scan)", value: "scan" },
     {
       name: `📊 View full report${hasCache ? ` (${columns.length} columns)` : ""}`,
@@ -726,185 +5195,1563 @@ async function selectAction(columns: ColumnInfo[]): Promise<Action> {
       disabled: !hasCache ? "scan first" : false,
     },
     {
-      name: `🔧 Fix zero dates → NULL${fixableCount > 0 ? chalk.yellow(` (${fixableCount} fixable)`) : ""}`,
+      name: `🔧 Fix zero dates (NULL or a replacement)${fixableCount > 0 ? chalk.yellow(` (${fixableCount} fixable)`) : ""}`,
       value: "fix_nulls",
-      disabled:
-        fixableCount === 0 ? (hasCache ? "none found" : "scan first") : false,
+      disabled: missing(fixableCount, fixable, "update"),
     },
     {
       name: `🔓 Allow NULL on columns${unfixableCount > 0 ? chalk.red(` (${unfixableCount} unfixable)`) : ""}`,
       value: "allow_nulls",
-      disabled:
-        unfixableCount === 0 ? (hasCache ? "none found" : "scan first") : false,
+      disabled: missing(unfixableCount, unfixable, "alter"),
+    },
+    {
+      name: `🔄 Convert TIMESTAMP → DATETIME${timestampCount > 0 ? chalk.blue(` (${timestampCount} columns)`) : ""}`,
+      value: "convert_timestamps",
+      disabled: missing(timestampCount, timestamps, "alter"),
+    },
+    {
+      name: "📥 Sync defaults from source DB",
+      value: "sync_defaults",
+      disabled: !getSourceConfig()
+        ? 'set SOURCE_DB_HOST or a "source" profile'
+        : false,
+    },
+    {
+      name: "↩️  Undo a zero-date fix from backup",
+      value: "undo",
+    },
+    {
+      name: "⏪ Roll back column changes from a run",
+      value: "rollback",
+    },
+    {
+      name: "🚦 Run CI check",
+      value: "check",
+      disabled: !hasCache ? "scan first" : false,
+    },
+    {
+      name: "🗒️  Write a fix plan file from the scan",
+      value: "plan",
+      disabled: !hasCache ? "scan first" : false,
+    },
+    {
+      name: "📋 Apply a fix plan file",
+      value: "apply",
+    },
+    {
+      name: "🩺 Audit server sql_mode and upgrade readiness",
+      value: "audit",
+    },
+    {
+      name: "🕘 Compare two scans from history",
+      value: "diff",
     },
     {
-      name: `🔄 Convert TIMESTAMP → DATETIME${timestampCount > 0 ? chalk.blue(` (${timestampCount} columns)`) : ""}`,
-      value: "convert_timestamps",
-      disabled:
-        timestampCount === 0 ? (hasCache ? "none found" : "scan first") : false,
+      name: "⏯️  Resume an interrupted run",
+      value: "resume",
     },
     {
-      name: "📥 Sync defaults from source DB",
-      value: "sync_defaults",
-      disabled: !getSourceConfig() ? "set SOURCE_DB_HOST" : false,
+      name: `📝 Dry run: ${dryRun ? chalk.magenta("ON") : "OFF"} ${chalk.gray("(export SQL instead of executing)")}`,
+      value: "toggle_dry_run",
     },
     { name: "🚪 Exit", value: "exit" },
   ];
 
-  const action = await select<Action>({
-    message: "What would you like to do?",
-    choices,
+  if (!inputOptions.interactive) {
+    throw new InputRequiredError(
+      "Action selection",
+      "Pass --action <action> to choose what to do.",
+    );
+  }
+
+  const action = await select<Action>({
+    message: "What would you like to do?",
+    choices,
+  });
+
+  return action;
+}
+
+// ============== Time Zone Conversion ==============
+// ALTER TABLE renders TIMESTAMP values (stored as UTC) into DATETIME wall-clock
+// values using the session time_zone, so pinning the session zone on the
+// connection that runs the ALTER decides which zone the new values are in.
+async function getTimeZoneInfo(knex: KnexType): Promise<TimeZoneInfo> {
+  const result = await knex.raw(
+    "SELECT @@session.time_zone AS session, @@global.time_zone AS global, @@system_time_zone AS `system`",
+  );
+  return result[0][0];
+}
+
+async function validateTimeZone(knex: KnexType, zone: string): Promise<void> {
+  const result = await knex.raw(
+    "SELECT CONVERT_TZ('2000-01-01 00:00:00', '+00:00', ?) AS converted",
+    [zone],
+  );
+  if (result[0][0].converted === null) {
+    throw new Error(
+      `Unknown time zone "${zone}". Named zones need the server's time zone tables (see mysql_tzinfo_to_sql); offsets like +02:00 always work.`,
+    );
+  }
+}
+
+// Returns the zone to pin during the conversion, or null to keep the
+// session zone (a plain ALTER)
+async function selectTargetTimeZone(
+  knex: KnexType,
+  preset?: string,
+): Promise<string | null> {
+  const zones = await getTimeZoneInfo(knex);
+  console.log(
+    chalk.cyan(
+      `\nServer time zones: session ${zones.session}, global ${zones.global} (system ${zones.system})`,
+    ),
+  );
+
+  let zone = preset ?? null;
+  if (zone === null && inputOptions.interactive) {
+    const choice = await select({
+      message: "Store converted DATETIME values in which time zone?",
+      choices: [
+        {
+          name: `Session zone (${zones.session}) - same as a plain ALTER`,
+          value: "session",
+        },
+        { name: "UTC", value: "UTC" },
+        { name: "Other named zone or offset...", value: "other" },
+      ],
+    });
+    zone =
+      choice === "other"
+        ? await input({
+            message: "Time zone (e.g. Europe/Budapest or +02:00):",
+            validate: (value) => value.trim() !== "" || "Enter a time zone",
+          })
+        : choice;
+  }
+
+  zone = zone?.trim() ?? null;
+  if (zone === null || zone.toLowerCase() === "session") return null;
+  if (zone.toUpperCase() === "UTC") zone = "+00:00";
+
+  await validateTimeZone(knex, zone);
+  return zone;
+}
+
+// UNIX_TIMESTAMP reads TIMESTAMP values as UTC and DATETIME values in the
+// session zone, so with the target zone pinned both sides must agree. The
+// first sample reads runs of rows from random primary keys, each an index
+// range read; tables without a single integer key are sampled from the start.
+async function sampleUnixTimestamps(
+  knex: KnexType,
+  schema: string,
+  table: string,
+  columns: string[],
+  primaryKey: string[],
+  keys: Record<string, unknown>[] | null,
+): Promise<TimestampSample[]> {
+  const selectList = [
+    ...primaryKey.map((k) => `\`${k}\``),
+    ...columns.map((c, i) => `UNIX_TIMESTAMP(\`${c}\`) AS \`ts_${i}\``),
+  ].join(", ");
+
+  let rows: Record<string, unknown>[];
+  if (keys === null) {
+    const from = `\`${schema}\`.\`${table}\``;
+    const keyRange = await getIntegerKeyRange(knex, schema, table, primaryKey);
+    const parts = keyRange
+      ? Array.from(
+          { length: Math.ceil(CONVERSION_SAMPLE_SIZE / SAMPLE_RANGE_ROWS) },
+          () =>
+            `(SELECT ${selectList} FROM ${from} WHERE \`${keyRange.pk}\` >= ${randomKey(keyRange)} ORDER BY \`${keyRange.pk}\` LIMIT ${SAMPLE_RANGE_ROWS})`,
+        )
+      : [
+          `(SELECT ${selectList} FROM ${from} ORDER BY ${primaryKey.map((k) => `\`${k}\``).join(", ")} LIMIT ${CONVERSION_SAMPLE_SIZE})`,
+        ];
+    // Runs that overlap would read the same rows twice
+    const unique = new Map<string, Record<string, unknown>>();
+    for (const row of (await knex.raw(parts.join(" UNION ALL ")))[0]) {
+      unique.set(JSON.stringify(primaryKey.map((k) => row[k])), row);
+    }
+    rows = [...unique.values()];
+  } else {
+    if (keys.length === 0) return [];
+    const tuple = `(${primaryKey.map(() => "?").join(", ")})`;
+    rows = (
+      await knex.raw(
+        `SELECT ${selectList} FROM \`${schema}\`.\`${table}\` WHERE (${primaryKey.map((k) => `\`${k}\``).join(", ")}) IN (${keys.map(() => tuple).join(", ")})`,
+        keys.flatMap((key) => primaryKey.map((k) => key[k])),
+      )
+    )[0];
+  }
+
+  return rows.map((row) => ({
+    key: Object.fromEntries(primaryKey.map((k) => [k, row[k]])),
+    values: Object.fromEntries(
+      columns.map((c, i) => [c, row[`ts_${i}`] as string | null]),
+    ),
+  }));
+}
+
+function compareTimestampSamples(
+  before: TimestampSample[],
+  after: TimestampSample[],
+): string[] {
+  const afterByKey = new Map(after.map((s) => [JSON.stringify(s.key), s]));
+  const mismatches: string[] = [];
+
+  for (const sample of before) {
+    const converted = afterByKey.get(JSON.stringify(sample.key));
+    for (const [column, value] of Object.entries(sample.values)) {
+      const newValue = converted ? converted.values[column] : null;
+      const same =
+        value === null || newValue === null
+          ? value === newValue
+          : Number(value) === Number(newValue);
+      if (!same) {
+        mismatches.push(
+          `${column} at ${JSON.stringify(sample.key)}: ${value} → ${newValue}`,
+        );
+      }
+    }
+  }
+
+  return mismatches;
+}
+
+// Runs the table's conversion ALTER on one connection with the session zone
+// pinned, sampling UNIX_TIMESTAMP values around it to verify no instant moved
+async function convertTableInTimeZone(
+  knex: KnexType,
+  schema: string,
+  table: string,
+  columns: string[],
+  clauses: string[],
+  description: string,
+  timeZone: string,
+  script: SqlScript | null = null,
+): Promise<ConversionCheck> {
+  const primaryKey = await getPrimaryKeyColumns(knex, schema, table);
+
+  return knex.transaction(async (trx) => {
+    const { session } = await getTimeZoneInfo(trx);
+    await runStatement(trx, script, {
+      sql: `SET SESSION time_zone = ${quoteSqlString(timeZone)}`,
+      description: `Write converted values of ${schema}.${table} in ${timeZone}`,
+      estimatedRows: null,
+    });
+
+    // The connection goes back to the pool afterwards, so the zone is
+    // restored even when the ALTER or the verification fails
+    try {
+      const verify = !script && primaryKey.length > 0;
+      const before = verify
+        ? await sampleUnixTimestamps(
+            trx,
+            schema,
+            table,
+            columns,
+            primaryKey,
+            null,
+          )
+        : [];
+
+      const affectedRows = await alterTableColumns(
+        trx,
+        schema,
+        table,
+        clauses,
+        description,
+        script,
+        "change_type",
+      );
+
+      const after = verify
+        ? await sampleUnixTimestamps(
+            trx,
+            schema,
+            table,
+            columns,
+            primaryKey,
+            before.map((sample) => sample.key),
+          )
+        : [];
+
+      return {
+        schema,
+        table,
+        sampled: before.length,
+        affectedRows,
+        mismatches: compareTimestampSamples(before, after),
+        skipped: script
+          ? "dry run"
+          : primaryKey.length === 0
+            ? "no primary key"
+            : null,
+      };
+    } finally {
+      await runStatement(trx, script, {
+        sql: `SET SESSION time_zone = ${quoteSqlString(session)}`,
+        description: "Restore the session time zone",
+        estimatedRows: null,
+      });
+    }
+  });
+}
+
+function displayConversionChecks(checks: ConversionCheck[]): void {
+  if (checks.length === 0) return;
+
+  console.log(
+    chalk.bold("\nConversion verification (UNIX_TIMESTAMP before vs after):"),
+  );
+  for (const check of checks) {
+    const name = `${check.schema}.${check.table}`;
+    if (check.skipped) {
+      console.log(chalk.gray(`   - ${name}: skipped (${check.skipped})`));
+    } else if (check.mismatches.length === 0) {
+      console.log(
+        chalk.green(`   ✓ ${name}: ${check.sampled} sampled rows match`),
+      );
+    } else {
+      console.log(
+        chalk.red(
+          `   ✗ ${name}: ${check.mismatches.length} mismatched values in ${check.sampled} sampled rows`,
+        ),
+      );
+      for (const mismatch of check.mismatches.slice(0, 5)) {
+        console.log(chalk.gray(`      ${mismatch}`));
+      }
+    }
+  }
+
+  if (checks.some((c) => c.mismatches.length > 0)) {
+    console.log(
+      chalk.yellow(
+        "\n⚠️  Mismatches usually mean values fall in a DST transition of the target zone. Revert with the rollback action if needed.",
+      ),
+    );
+  }
+  console.log();
+}
+
+// ============== Dependency Analysis ==============
+// Set once from --ignore-dependencies in main
+const dependencyOptions: DependencyOptions = {
+  ignoreBlockers: false,
+};
+
+// Definitions are stored as text, so references are found by name. This can
+// over-report (a same-named column in another table) but never misses one.
+function mentionsIdentifier(text: string | null, name: string): boolean {
+  if (!text) return false;
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^\\w$])\`?${escaped}\`?($|[^\\w$])`, "i").test(text);
+}
+
+function mentionsColumn(text: string | null, col: ColumnRef): boolean {
+  return (
+    mentionsIdentifier(text, col.TABLE_NAME) &&
+    mentionsIdentifier(text, col.COLUMN_NAME)
+  );
+}
+
+async function findColumnDependencies(
+  knex: KnexType,
+  columns: ColumnRef[],
+  operation: DependencyOperation,
+): Promise<ColumnDependency[]> {
+  const schemas = [...new Set(columns.map((c) => c.TABLE_SCHEMA))];
+  const dependencies: ColumnDependency[] = [];
+  const add = (
+    col: ColumnRef,
+    kind: DependencyKind,
+    name: string,
+    detail: string,
+    blocking = false,
+  ) =>
+    dependencies.push({
+      schema: col.TABLE_SCHEMA,
+      table: col.TABLE_NAME,
+      column: col.COLUMN_NAME,
+      kind,
+      name,
+      detail,
+      blocking,
+    });
+  const sameTable = (col: ColumnRef, schema: string, table: string) =>
+    col.TABLE_SCHEMA === schema && col.TABLE_NAME === table;
+
+  const [triggers, views, routines, events, keys, indexes, generated] =
+    await Promise.all([
+      knex("information_schema.TRIGGERS")
+        .select(
+          "TRIGGER_SCHEMA",
+          "TRIGGER_NAME",
+          "EVENT_OBJECT_TABLE",
+          "EVENT_MANIPULATION",
+          "ACTION_TIMING",
+          "ACTION_STATEMENT",
+        )
+        .whereNotIn("TRIGGER_SCHEMA", SYSTEM_SCHEMAS),
+      knex("information_schema.VIEWS")
+        .select("TABLE_SCHEMA", "TABLE_NAME", "VIEW_DEFINITION")
+        .whereNotIn("TABLE_SCHEMA", SYSTEM_SCHEMAS),
+      knex("information_schema.ROUTINES")
+        .select(
+          "ROUTINE_SCHEMA",
+          "ROUTINE_NAME",
+          "ROUTINE_TYPE",
+          "ROUTINE_DEFINITION",
+        )
+        .whereNotIn("ROUTINE_SCHEMA", SYSTEM_SCHEMAS),
+      knex("information_schema.EVENTS")
+        .select("EVENT_SCHEMA", "EVENT_NAME", "EVENT_DEFINITION")
+        .whereNotIn("EVENT_SCHEMA", SYSTEM_SCHEMAS),
+      knex("information_schema.KEY_COLUMN_USAGE")
+        .select(
+          "CONSTRAINT_NAME",
+          "TABLE_SCHEMA",
+          "TABLE_NAME",
+          "COLUMN_NAME",
+          "REFERENCED_TABLE_SCHEMA",
+          "REFERENCED_TABLE_NAME",
+          "REFERENCED_COLUMN_NAME",
+        )
+        .whereNotNull("REFERENCED_TABLE_NAME")
+        .where((q) =>
+          q
+            .whereIn("TABLE_SCHEMA", schemas)
+            .orWhereIn("REFERENCED_TABLE_SCHEMA", schemas),
+        ),
+      knex("information_schema.STATISTICS")
+        .select(
+          "TABLE_SCHEMA",
+          "TABLE_NAME",
+          "COLUMN_NAME",
+          "INDEX_NAME",
+          "NON_UNIQUE",
+        )
+        .whereIn("TABLE_SCHEMA", schemas),
+      // select * so servers without GENERATION_EXPRESSION still answer
+      knex("information_schema.COLUMNS")
+        .select("*")
+        .whereIn("TABLE_SCHEMA", schemas)
+        .where("EXTRA", "like", "%GENERATED%"),
+    ]);
+
+  for (const col of columns) {
+    for (const t of triggers) {
+      const onTable = sameTable(col, t.TRIGGER_SCHEMA, t.EVENT_OBJECT_TABLE);
+      // UPDATE triggers fire for every fixed row, whatever columns they read
+      const fires = onTable && operation === "update";
+      if (
+        (fires && t.EVENT_MANIPULATION === "UPDATE") ||
+        (onTable && mentionsIdentifier(t.ACTION_STATEMENT, col.COLUMN_NAME)) ||
+        mentionsColumn(t.ACTION_STATEMENT, col)
+      ) {
+        add(
+          col,
+          "trigger",
+          `${t.TRIGGER_SCHEMA}.${t.TRIGGER_NAME}`,
+          `${t.ACTION_TIMING} ${t.EVENT_MANIPULATION} on ${t.EVENT_OBJECT_TABLE}`,
+        );
+      }
+    }
+    for (const v of views) {
+      if (mentionsColumn(v.VIEW_DEFINITION, col)) {
+        add(col, "view", `${v.TABLE_SCHEMA}.${v.TABLE_NAME}`, "view");
+      }
+    }
+    for (const r of routines) {
+      if (mentionsColumn(r.ROUTINE_DEFINITION, col)) {
+        add(
+          col,
+          "routine",
+          `${r.ROUTINE_SCHEMA}.${r.ROUTINE_NAME}`,
+          String(r.ROUTINE_TYPE).toLowerCase(),
+        );
+      }
+    }
+    for (const e of events) {
+      if (mentionsColumn(e.EVENT_DEFINITION, col)) {
+        add(col, "event", `${e.EVENT_SCHEMA}.${e.EVENT_NAME}`, "event");
+      }
+    }
+    // MySQL refuses to change the type of a column in a foreign key, and
+    // overwriting referenced values orphans the child rows
+    for (const k of keys) {
+      if (
+        sameTable(col, k.TABLE_SCHEMA, k.TABLE_NAME) &&
+        k.COLUMN_NAME === col.COLUMN_NAME
+      ) {
+        add(
+          col,
+          "foreign_key",
+          k.CONSTRAINT_NAME,
+          `references ${k.REFERENCED_TABLE_SCHEMA}.${k.REFERENCED_TABLE_NAME}.${k.REFERENCED_COLUMN_NAME}`,
+          operation === "change_type",
+        );
+      }
+      if (
+        sameTable(col, k.REFERENCED_TABLE_SCHEMA, k.REFERENCED_TABLE_NAME) &&
+        k.REFERENCED_COLUMN_NAME === col.COLUMN_NAME
+      ) {
+        add(
+          col,
+          "foreign_key",
+          k.CONSTRAINT_NAME,
+          `referenced by ${k.TABLE_SCHEMA}.${k.TABLE_NAME}.${k.COLUMN_NAME}`,
+          operation === "change_type" || operation === "update",
+        );
+      }
+    }
+    for (const i of indexes) {
+      if (
+        sameTable(col, i.TABLE_SCHEMA, i.TABLE_NAME) &&
+        i.COLUMN_NAME === col.COLUMN_NAME
+      ) {
+        add(
+          col,
+          "index",
+          i.INDEX_NAME,
+          Number(i.NON_UNIQUE) === 0 ? "unique index" : "index",
+        );
+      }
+    }
+    for (const g of generated) {
+      if (
+        sameTable(col, g.TABLE_SCHEMA, g.TABLE_NAME) &&
+        mentionsIdentifier(g.GENERATION_EXPRESSION ?? null, col.COLUMN_NAME)
+      ) {
+        add(
+          col,
+          "generated_column",
+          g.COLUMN_NAME,
+          `${String(g.EXTRA).toLowerCase()} as (${g.GENERATION_EXPRESSION})`,
+        );
+      }
+    }
+  }
+
+  // An index over several selected columns is listed once per column
+  const seen = new Set<string>();
+  return dependencies.filter((d) => {
+    const key = `${d.schema}.${d.table}.${d.column}|${d.kind}|${d.name}|${d.detail}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Prints the dependent objects of the columns and returns false when one of
+// them blocks the change (unless --ignore-dependencies was passed)
+async function checkColumnDependencies(
+  knex: KnexType,
+  columns: ColumnRef[],
+  operation: DependencyOperation,
+): Promise<boolean> {
+  const spinner = ora("Checking dependent objects...").start();
+  let dependencies: ColumnDependency[];
+  try {
+    dependencies = await findColumnDependencies(knex, columns, operation);
+  } catch (error) {
+    spinner.fail("Failed to check dependent objects.");
+    throw error;
+  }
+  spinner.stop();
+
+  if (dependencies.length === 0) return true;
+
+  console.log(chalk.yellow("\n⚠️  Dependent objects:"));
+  for (const dep of dependencies) {
+    const line = `${dep.schema}.${dep.table}.${dep.column}: ${dep.kind.replace("_", " ")} ${dep.name} (${dep.detail})`;
+    console.log(
+      dep.blocking ? chalk.red(`   ✗ ${line}`) : chalk.gray(`   • ${line}`),
+    );
+  }
+
+  const blockers = dependencies.filter((d) => d.blocking).length;
+  if (blockers === 0) return true;
+  if (dependencyOptions.ignoreBlockers) {
+    console.log(
+      chalk.yellow(
+        `   Continuing despite ${blockers} blocking dependency(ies) (--ignore-dependencies).`,
+      ),
+    );
+    return true;
+  }
+  recordActionFailure();
+  console.log(
+    chalk.red(
+      `\n${blockers} dependent object(s) block this change. Drop or adjust them first, or pass --ignore-dependencies.\n`,
+    ),
+  );
+  return false;
+}
+
+// ============== Execute Fixes ==============
+type FixAction = "confirm" | "show_sample" | "choose_replacements" | "cancel";
+
+async function executeNullFixes(
+  knex: KnexType,
+  columns: ColumnInfo[],
+  selectedTables: TableSelection[],
+  script: SqlScript | null = null,
+  fixOptions: FixOptions = {
+    backup: null,
+    batch: DEFAULT_BATCH_OPTIONS,
+    progress: null,
+    throttle: null,
+    replaceRules: [],
+    journal: null,
+    costSort: "name",
+  },
+): Promise<ColumnInfo[]> {
+  const tableSet = new Set(selectedTables.map((t) => `${t.schema}.${t.table}`));
+  const candidates = columns.filter(
+    (c) =>
+      mayHaveBadRows(c) && tableSet.has(`${c.TABLE_SCHEMA}.${c.TABLE_NAME}`),
+  );
+
+  if (candidates.length === 0) {
+    console.log(chalk.yellow("\nNo columns to fix in selected tables.\n"));
+    return [];
+  }
+
+  const strategies = new Map<ColumnInfo, ReplaceStrategy | null>(
+    candidates.map((col) => [
+      col,
+      getDefaultReplaceStrategy(col, fixOptions.replaceRules),
+    ]),
+  );
+  const showColumns = () => {
+    console.log(chalk.yellow("\nColumns to fix:"));
+    for (const col of candidates) {
+      const strategy = strategies.get(col)!;
+      console.log(
+        chalk.gray(
+          `   • ${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME} (${formatBadRowCount(col)} rows) → `,
+        ) +
+          (strategy
+            ? chalk.cyan(describeReplaceStrategy(strategy))
+            : chalk.yellow("skip (choose a replacement)")),
+      );
+    }
+  };
+  showColumns();
+
+  // Action loop - allow showing samples before confirming
+  let shouldProceed = false;
+  while (!shouldProceed) {
+    if (inputOptions.yes) {
+      break;
+    }
+    if (!inputOptions.interactive) {
+      throw new InputRequiredError(
+        "Fix confirmation",
+        "Pass --yes to proceed automatically.",
+      );
+    }
+
+    const action = await select<FixAction>({
+      message: `What would you like to do? (${candidates.length} column(s) selected)`,
+      choices: [
+        {
+          name: script ? "📝 Export SQL for fix" : "✅ Proceed with fix",
+          value: "confirm",
+        },
+        { name: "👁️  Show sample bad rows", value: "show_sample" },
+        { name: "🔁 Choose replacement values", value: "choose_replacements" },
+        { name: "❌ Cancel", value: "cancel" },
+      ],
+    });
+
+    if (action === "cancel") {
+      console.log(chalk.yellow("Cancelled."));
+      return [];
+    }
+
+    if (action === "choose_replacements") {
+      for (const col of candidates) {
+        strategies.set(
+          col,
+          await promptReplaceStrategy(col, columns, strategies.get(col)!),
+        );
+      }
+      showColumns();
+      continue;
+    }
+
+    if (action === "show_sample") {
+      // Show sample bad rows for each column
+      const spinner = ora("Fetching sample rows...").start();
+      for (const col of candidates) {
+        spinner.text = `Fetching from ${col.TABLE_SCHEMA}.${col.TABLE_NAME}...`;
+        const samples = await fetchBadRowsSample(
+          knex,
+          col.TABLE_SCHEMA,
+          col.TABLE_NAME,
+          col.COLUMN_NAME,
+          col.DATA_TYPE,
+          5,
+        );
+        spinner.stop();
+
+        console.log(
+          chalk.cyan(
+            `\n📋 ${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME} (showing up to 5 of ${col.badRowCount}):`,
+          ),
+        );
+        if (samples.length === 0) {
+          console.log(chalk.gray("   No rows found or access denied."));
+        } else {
+          console.table(samples);
+        }
+        spinner.start();
+      }
+      spinner.stop();
+      continue;
+    }
+
+    if (action === "confirm") {
+      shouldProceed = true;
+    }
+  }
+
+  const toFix = candidates.filter((col) => strategies.get(col));
+  if (toFix.length < candidates.length) {
+    console.log(
+      chalk.yellow(
+        `Skipping ${candidates.length - toFix.length} column(s) without a replacement (pass --replace or choose one).`,
+      ),
+    );
+  }
+  if (toFix.length === 0) {
+    return [];
+  }
+  // Only the columns that will be updated; skipped ones cannot block
+  if (!(await checkColumnDependencies(knex, toFix, "update"))) {
+    return [];
+  }
+
+  // Resolve every replacement before touching data so a bad choice fails fast
+  const replacements = new Map<ColumnInfo, Replacement>();
+  try {
+    for (const col of toFix) {
+      replacements.set(
+        col,
+        await resolveReplacement(knex, col, strategies.get(col)!),
+      );
+    }
+  } catch (error) {
+    recordActionFailure(error);
+    console.log(
+      chalk.red(`\n${error instanceof Error ? error.message : error}\n`),
+    );
+    return [];
+  }
+
+  // Offer to continue columns whose previous fix was stopped part-way
+  const resumeKeys = new Map<string, Record<string, unknown>>();
+  for (const col of toFix) {
+    const key = `${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME}`;
+    const saved = fixOptions.progress?.columns[key];
+    if (!saved) continue;
+    const resume = await confirmOrAssume({
+      message: `${key} was stopped after ${saved.updatedRows} rows at key ${JSON.stringify(saved.lastKey)}. Resume from there?`,
+      default: true,
+    });
+    if (resume) {
+      resumeKeys.set(key, saved.lastKey);
+    }
+  }
+
+  const { backup, batch, progress, throttle, journal } = fixOptions;
+  const steps = new Map(
+    toFix.map((col) => [
+      col,
+      addRunStep(journal, {
+        kind: "fix",
+        schema: col.TABLE_SCHEMA,
+        table: col.TABLE_NAME,
+        columns: [col.COLUMN_NAME],
+        strategy: strategies.get(col)!,
+      }),
+    ]),
+  );
+  const spinner = ora("Starting fixes...").start();
+  const fixed: ColumnInfo[] = [];
+  const skipped: ColumnInfo[] = [];
+  let totalAffected = 0;
+
+  // Ctrl+C stops cleanly after the current batch; a second one aborts
+  let stopRequested = false;
+  const onSigint = () => {
+    if (stopRequested) process.exit(130);
+    stopRequested = true;
+    spinner.text = chalk.yellow(
+      "Stopping after the current batch... (Ctrl+C again to abort)",
+    );
+  };
+  process.on("SIGINT", onSigint);
+
+  try {
+    for (let i = 0; i < toFix.length; i++) {
+      const col = toFix[i];
+      const key = `${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME}`;
+      const step = steps.get(col)!;
+      startRunStep(journal, step);
+      const primaryKey = await getPrimaryKeyColumns(
+        knex,
+        col.TABLE_SCHEMA,
+        col.TABLE_NAME,
+      );
+
+      if (primaryKey.length === 0) {
+        if (backup) {
+          spinner.warn(
+            chalk.yellow(
+              `Skipped ${key}: no primary key to back up rows by (use --no-backup to fix anyway)`,
+            ),
+          );
+          skipped.push(col);
+          failRunStep(journal, step, "skipped: no primary key to back up by");
+          spinner.start();
+          continue;
+        }
+
+        // Nothing to batch by: fall back to a single UPDATE
+        await waitForCapacity(
+          knex,
+          script ? null : throttle,
+          (reason) => {
+            if (!stopRequested) {
+              spinner.text = `[${i + 1}/${toFix.length}] Fixing ${key} - ${chalk.yellow(`⏸ paused: ${reason}`)}`;
+            }
+          },
+          () => stopRequested,
+        );
+        if (stopRequested) {
+          spinner.warn(
+            chalk.yellow(
+              `Stopped before ${key} (${totalAffected} total rows updated). Run fix_nulls again or use the resume action to continue.`,
+            ),
+          );
+          return fixed;
+        }
+        spinner.text = `[${i + 1}/${toFix.length}] Fixing ${key} (no primary key, unbatched)...`;
+        const affectedRows = await fixBadRows(
+          col.TABLE_SCHEMA,
+          col.TABLE_NAME,
+          col.COLUMN_NAME,
+          col.DATA_TYPE,
+          knex,
+          script,
+          col.badRowCount,
+          replacements.get(col),
+        );
+        totalAffected += affectedRows;
+        finishRunStep(journal, step, affectedRows);
+        fixed.push(col);
+        continue;
+      }
+
+      spinner.text = `[${i + 1}/${toFix.length}] Fixing ${key}...`;
+      const alreadyUpdated = resumeKeys.has(key)
+        ? (progress?.columns[key]?.updatedRows ?? 0)
+        : 0;
+      const result = await fixBadRowsInBatches(
+        knex,
+        col.TABLE_SCHEMA,
+        col.TABLE_NAME,
+        col.COLUMN_NAME,
+        col.DATA_TYPE,
+        {
+          primaryKey,
+          replacement: replacements.get(col)!,
+          batch,
+          startKey: resumeKeys.get(key) ?? null,
+          backup,
+          script,
+          shouldStop: () => stopRequested,
+          beforeBatch: () =>
+            waitForCapacity(
+              knex,
+              script ? null : throttle,
+              (reason) => {
+                if (!stopRequested) {
+                  spinner.text = `[${i + 1}/${toFix.length}] Fixing ${key} - ${chalk.yellow(`⏸ paused: ${reason}`)}`;
+                }
+              },
+              () => stopRequested,
+            ),
+          onBatch: (current) => {
+            if (!stopRequested) {
+              spinner.text = `[${i + 1}/${toFix.length}] Fixing ${key} - batch ${current.batch}, ${current.updatedRows} rows updated`;
+            }
+            if (progress && current.lastKey) {
+              progress.columns[key] = {
+                lastKey: current.lastKey,
+                updatedRows: alreadyUpdated + current.updatedRows,
+                updatedAt: new Date().toISOString(),
+              };
+              saveFixProgress(progress);
+            }
+          },
+        },
+      );
+      totalAffected += result.updatedRows;
+      fixed.push(col);
+
+      if (!result.completed) {
+        // Left running: the resume action picks it up from the saved key
+        updateRunStep(journal, step, {
+          affectedRows: (step?.affectedRows ?? 0) + result.updatedRows,
+        });
+        spinner.warn(
+          chalk.yellow(
+            `Stopped ${key} after ${result.batch} batch(es) (${totalAffected} total rows updated). Run fix_nulls again or use the resume action to continue.`,
+          ),
+        );
+        return fixed;
+      }
+      finishRunStep(journal, step, result.updatedRows);
+      if (progress && progress.columns[key]) {
+        delete progress.columns[key];
+        saveFixProgress(progress);
+      }
+    }
+
+    if (skipped.length > 0) {
+      spinner.warn(
+        chalk.yellow(
+          `Applied ${fixed.length} of ${toFix.length} fixes (${totalAffected} total rows updated), ${skipped.length} skipped.`,
+        ),
+      );
+    } else {
+      spinner.succeed(
+        chalk.green(
+          script
+            ? `Recorded ${toFix.length} fixes (~${totalAffected} rows).`
+            : `All ${toFix.length} fixes applied successfully! (${totalAffected} total rows updated)`,
+        ),
+      );
+    }
+    return fixed;
+  } catch (error) {
+    recordActionFailure(error);
+    spinner.fail(
+      chalk.red(
+        `Fix failed at column ${fixed.length + skipped.length + 1}/${toFix.length}.`,
+      ),
+    );
+    console.error(error);
+    failRunStep(
+      journal,
+      steps.get(toFix[fixed.length + skipped.length])!,
+      error,
+    );
+    return fixed;
+  } finally {
+    process.off("SIGINT", onSigint);
+    if (backup && backup.columns.some((c) => c.rowCount > 0)) {
+      console.log(
+        chalk.gray(
+          `\n💾 Original values backed up as ${backup.id} (restore with the undo action)\n`,
+        ),
+      );
+    }
+  }
+}
+
+async function executeAllowNulls(
+  knex: KnexType,
+  columns: ColumnInfo[],
+  selectedTables: TableSelection[],
+  script: SqlScript | null = null,
+  journal: RunJournal | null = null,
+  costSort: CostSort = "name",
+): Promise<ColumnInfo[]> {
+  const tableSet = new Set(selectedTables.map((t) => `${t.schema}.${t.table}`));
+  const toAllow = columns.filter(
+    (c) =>
+      mayHaveBadRows(c) &&
+      c.IS_NULLABLE === "NO" &&
+      tableSet.has(`${c.TABLE_SCHEMA}.${c.TABLE_NAME}`),
+  );
+
+  if (toAllow.length === 0) {
+    console.log(
+      chalk.yellow("\nNo columns need NULL allowance in selected tables.\n"),
+    );
+    return [];
+  }
+
+  const costs = await estimateAlterCosts(
+    knex,
+    listTableGroups(toAllow),
+    "change_nullability",
+  );
+  const tables = sortTableGroups(listTableGroups(toAllow), costs, costSort);
+
+  console.log(chalk.yellow("\nTables to modify (allow NULL):"));
+  displayAlterCosts(
+    tables,
+    costs,
+    (col) => `${col.COLUMN_NAME} (${formatBadRowCount(col)} bad rows)`,
+  );
+
+  if (!(await checkColumnDependencies(knex, toAllow, "change_nullability"))) {
+    return [];
+  }
+  await printOnlineAlterChoice(knex, ["change_nullability"], script);
+
+  const confirmed = await confirmOrAssume({
+    message: script
+      ? `Export ALTER statements for ${toAllow.length} column(s) to allow NULL?`
+      : `This will ALTER ${toAllow.length} column(s) to allow NULL. Continue?`,
+    default: false,
   });
 
-  return action;
+  if (!confirmed) {
+    console.log(chalk.yellow("Aborted."));
+    return [];
+  }
+
+  const steps = tables.map(({ schema, table, cols }) =>
+    addRunStep(journal, {
+      kind: "allow_null",
+      schema,
+      table,
+      columns: cols.map((col) => col.COLUMN_NAME),
+    }),
+  );
+  const spinner = ora("Starting modifications...").start();
+  const allowed: ColumnInfo[] = [];
+  let tablesDone = 0;
+
+  try {
+    for (const [i, { schema, table, cols }] of tables.entries()) {
+      spinner.text = `[${i + 1}/${tables.length}] Allowing NULL on ${cols.length} column(s) of ${schema}.${table}...`;
+      startRunStep(journal, steps[i]);
+      for (const col of cols) {
+        await recordSnapshot(knex, journal, schema, table, col.COLUMN_NAME);
+      }
+      const definitions = await readColumnDefinitions(
+        knex,
+        schema,
+        table,
+        cols.map((col) => col.COLUMN_NAME),
+      );
+      const affectedRows = await alterTableColumns(
+        knex,
+        schema,
+        table,
+        cols.map((col) => allowNullClause(definitions.get(col.COLUMN_NAME)!)),
+        `Allow NULL on ${cols.map((col) => col.COLUMN_NAME).join(", ")} in ${schema}.${table}`,
+        script,
+        "change_nullability",
+      );
+      finishRunStep(journal, steps[i], affectedRows);
+      allowed.push(...cols);
+      tablesDone++;
+    }
+
+    spinner.succeed(
+      chalk.green(
+        script
+          ? `Recorded ${toAllow.length} column modifications in ${tables.length} table(s).`
+          : `All ${toAllow.length} columns in ${tables.length} table(s) modified successfully!`,
+      ),
+    );
+    announceRunJournal(journal);
+    return allowed;
+  } catch (error) {
+    recordActionFailure(error);
+    const failed = tables[tablesDone];
+    spinner.fail(
+      chalk.red(
+        `Modification failed at table ${tablesDone + 1}/${tables.length} (${failed.schema}.${failed.table}).`,
+      ),
+    );
+    console.error(error);
+    failRunStep(journal, steps[tablesDone], error);
+    announceRunJournal(journal);
+    return allowed;
+  }
 }
 
-// ============== Execute Fixes ==============
-type FixAction = "confirm" | "show_sample" | "cancel";
+async function executeTimestampConversions(
+  knex: KnexType,
+  columns: ColumnInfo[],
+  selectedTables: TableSelection[],
+  script: SqlScript | null = null,
+  journal: RunJournal | null = null,
+  throttle: Throttle | null = null,
+  timeZonePreset?: string,
+  costSort: CostSort = "name",
+): Promise<ColumnInfo[]> {
+  const tableSet = new Set(selectedTables.map((t) => `${t.schema}.${t.table}`));
+  const toConvert = columns.filter(
+    (c) =>
+      c.DATA_TYPE === "timestamp" &&
+      tableSet.has(`${c.TABLE_SCHEMA}.${c.TABLE_NAME}`),
+  );
+
+  if (toConvert.length === 0) {
+    console.log(chalk.yellow("\nNo TIMESTAMP columns in selected tables.\n"));
+    return [];
+  }
+
+  const hasProblems = toConvert.some((c) => c.badRowCount > 0);
+
+  if (hasProblems) {
+    console.log(
+      chalk.red("\n⚠️  Some selected columns have bad data (0000-00-00)."),
+    );
+    console.log(
+      chalk.red("   Fix the bad data FIRST, then convert to DATETIME.\n"),
+    );
+
+    const proceed = await confirmOrAssume({
+      message: "Proceed anyway? (May cause errors)",
+      default: false,
+    });
+
+    if (!proceed) return [];
+  }
+
+  const costs = await estimateAlterCosts(
+    knex,
+    listTableGroups(toConvert),
+    "change_type",
+  );
+  const tables = sortTableGroups(listTableGroups(toConvert), costs, costSort);
+
+  console.log(chalk.yellow("\nTables to convert:"));
+  displayAlterCosts(tables, costs, (col) => col.COLUMN_NAME);
+
+  const timeZone = await selectTargetTimeZone(knex, timeZonePreset);
+  if (timeZone) {
+    console.log(
+      chalk.cyan(`Converted values will be wall-clock times in ${timeZone}.`),
+    );
+  }
+
+  if (!(await checkColumnDependencies(knex, toConvert, "change_type"))) {
+    return [];
+  }
+  await printOnlineAlterChoice(knex, ["change_type"], script);
+
+  const confirmed = await confirmOrAssume({
+    message: script
+      ? `Export ALTER statements for ${toConvert.length} column(s) from TIMESTAMP to DATETIME?`
+      : `This will ALTER ${toConvert.length} column(s) from TIMESTAMP to DATETIME. Continue?`,
+    default: false,
+  });
+
+  if (!confirmed) {
+    console.log(chalk.yellow("Aborted."));
+    return [];
+  }
+
+  const steps = tables.map(({ schema, table, cols }) =>
+    addRunStep(journal, {
+      kind: "convert",
+      schema,
+      table,
+      columns: cols.map((col) => col.COLUMN_NAME),
+      timeZone,
+    }),
+  );
+  const spinner = ora("Starting conversion...").start();
+  const converted: ColumnInfo[] = [];
+  const checks: ConversionCheck[] = [];
+  let tablesDone = 0;
+
+  try {
+    for (const [i, { schema, table, cols }] of tables.entries()) {
+      await waitForCapacity(knex, script ? null : throttle, (reason) => {
+        spinner.text = `[${i + 1}/${tables.length}] Converting ${schema}.${table} - ${chalk.yellow(`⏸ paused: ${reason}`)}`;
+      });
+      spinner.text = `[${i + 1}/${tables.length}] Converting ${cols.length} column(s) of ${schema}.${table}...`;
+      startRunStep(journal, steps[i]);
+      for (const col of cols) {
+        await recordSnapshot(knex, journal, schema, table, col.COLUMN_NAME);
+      }
+      const definitions = await readColumnDefinitions(
+        knex,
+        schema,
+        table,
+        cols.map((col) => col.COLUMN_NAME),
+      );
+      const clauses = cols.map((col) =>
+        timestampToDatetimeClause(definitions.get(col.COLUMN_NAME)!),
+      );
+      const description = `Convert ${cols.map((col) => col.COLUMN_NAME).join(", ")} in ${schema}.${table} from TIMESTAMP to DATETIME`;
+      let affectedRows = 0;
+      if (timeZone) {
+        const check = await convertTableInTimeZone(
+          knex,
+          schema,
+          table,
+          cols.map((col) => col.COLUMN_NAME),
+          clauses,
+          description,
+          timeZone,
+          script,
+        );
+        checks.push(check);
+        affectedRows = check.affectedRows;
+      } else {
+        affectedRows = await alterTableColumns(
+          knex,
+          schema,
+          table,
+          clauses,
+          description,
+          script,
+          "change_type",
+        );
+      }
+      finishRunStep(journal, steps[i], affectedRows);
+      converted.push(...cols);
+      tablesDone++;
+    }
+
+    spinner.succeed(
+      chalk.green(
+        script
+          ? `Recorded ${toConvert.length} conversions in ${tables.length} table(s).`
+          : `All ${toConvert.length} conversions in ${tables.length} table(s) completed successfully!`,
+      ),
+    );
+    displayConversionChecks(checks);
+    announceRunJournal(journal);
+    return converted;
+  } catch (error) {
+    recordActionFailure(error);
+    const failed = tables[tablesDone];
+    spinner.fail(
+      chalk.red(
+        `Conversion failed at table ${tablesDone + 1}/${tables.length} (${failed.schema}.${failed.table}).`,
+      ),
+    );
+    console.error(error);
+    failRunStep(journal, steps[tablesDone], error);
+    displayConversionChecks(checks);
+    announceRunJournal(journal);
+    return converted; // Return what was successfully converted
+  }
+}
+
+// ============== Sync Defaults ==============
+async function executeSyncDefaults(
+  targetKnex: KnexType,
+  schemas: string[],
+  script: SqlScript | null = null,
+  journal: RunJournal | null = null,
+): Promise<number> {
+  const sourceConfig = getSourceConfig();
+  if (!sourceConfig) {
+    recordActionFailure();
+    console.log(
+      chalk.red(
+        `\nSOURCE_DB_HOST not configured in .env, and no "${profileOptions.sourceProfile ?? DEFAULT_SOURCE_PROFILE}" profile in ${profileOptions.file}\n`,
+      ),
+    );
+    return 0;
+  }
+
+  console.log(
+    chalk.cyan(`\nConnecting to source: ${describeConnection(sourceConfig)}`),
+  );
+  const sourceKnex = createKnex(sourceConfig);
+
+  const spinner = ora("Fetching column defaults from source...").start();
+
+  try {
+    // Get defaults from source
+    const sourceDefaults = await getColumnDefaults(sourceKnex, schemas);
+    spinner.text = `Found ${sourceDefaults.length} date columns in source.`;
+
+    // Get current state from target
+    const targetDefaults = await getColumnDefaults(targetKnex, schemas);
+    spinner.succeed(
+      `Source: ${sourceDefaults.length} columns, Target: ${targetDefaults.length} columns`,
+    );
+
+    // Build lookup for target columns
+    const targetMap = new Map<string, ColumnDefault>();
+    for (const col of targetDefaults) {
+      const key = `${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME}`;
+      targetMap.set(key, col);
+    }
+
+    // Find differences
+    const differences: {
+      source: ColumnDefault;
+      target: ColumnDefault | undefined;
+    }[] = [];
+    for (const srcCol of sourceDefaults) {
+      const key = `${srcCol.TABLE_SCHEMA}.${srcCol.TABLE_NAME}.${srcCol.COLUMN_NAME}`;
+      const tgtCol = targetMap.get(key);
+
+      if (!tgtCol) {
+        // Column doesn't exist in target - skip
+        continue;
+      }
 
-async function executeNullFixes(
-  knex: KnexType,
-  columns: ColumnInfo[],
-  selectedTables: TableSelection[],
-): Promise<ColumnInfo[]> {
-  const tableSet = new Set(selectedTables.map((t) => `${t.schema}.${t.table}`));
-  const toFix = columns.filter(
-    (c) =>
-      c.badRowCount > 0 &&
-      c.IS_NULLABLE === "YES" &&
-      tableSet.has(`${c.TABLE_SCHEMA}.${c.TABLE_NAME}`),
-  );
+      // Check if defaults differ
+      const srcDefault = srcCol.COLUMN_DEFAULT ?? "(none)";
+      const tgtDefault = tgtCol.COLUMN_DEFAULT ?? "(none)";
+      const srcExtra = srcCol.EXTRA || "";
+      const tgtExtra = tgtCol.EXTRA || "";
 
-  if (toFix.length === 0) {
-    console.log(chalk.yellow("\nNo columns to fix in selected tables.\n"));
-    return [];
-  }
+      if (srcDefault !== tgtDefault || srcExtra !== tgtExtra) {
+        differences.push({ source: srcCol, target: tgtCol });
+      }
+    }
 
-  console.log(chalk.yellow("\nColumns to fix:"));
-  for (const col of toFix) {
-    console.log(
-      chalk.gray(
-        `   • ${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME} (${col.badRowCount} rows)`,
+    // When resuming a run, columns that already match the source are done
+    const differing = new Set(
+      differences.map(
+        ({ source }) =>
+          `${source.TABLE_SCHEMA}.${source.TABLE_NAME}.${source.COLUMN_NAME}`,
       ),
     );
-  }
-
-  // Action loop - allow showing samples before confirming
-  let shouldProceed = false;
-  while (!shouldProceed) {
-    const action = await select<FixAction>({
-      message: `What would you like to do? (${toFix.length} column(s) selected)`,
-      choices: [
-        { name: "✅ Proceed with fix", value: "confirm" },
-        { name: "👁️  Show sample bad rows", value: "show_sample" },
-        { name: "❌ Cancel", value: "cancel" },
-      ],
-    });
+    for (const step of journal ? getUnfinishedSteps(journal) : []) {
+      const key = `${step.schema}.${step.table}.${step.columns[0]}`;
+      if (step.kind === "sync_default" && !differing.has(key)) {
+        finishRunStep(journal, step, 0);
+      }
+    }
 
-    if (action === "cancel") {
-      console.log(chalk.yellow("Cancelled."));
-      return [];
+    if (differences.length === 0) {
+      console.log(chalk.green("\n✓ All column defaults already match!\n"));
+      await sourceKnex.destroy();
+      return 0;
     }
 
-    if (action === "show_sample") {
-      // Show sample bad rows for each column
-      const spinner = ora("Fetching sample rows...").start();
-      for (const col of toFix) {
-        spinner.text = `Fetching from ${col.TABLE_SCHEMA}.${col.TABLE_NAME}...`;
-        const samples = await fetchBadRowsSample(
-          knex,
-          col.TABLE_SCHEMA,
-          col.TABLE_NAME,
-          col.COLUMN_NAME,
-          5,
+    // Display differences
+    console.log(
+      chalk.yellow(
+        `\nFound ${differences.length} column(s) with different defaults:\n`,
+      ),
+    );
+    console.log(chalk.bold("─".repeat(120)));
+    console.log(
+      chalk.bold(
+        "  Column".padEnd(50) +
+          "Source Default".padEnd(35) +
+          "Target Default".padEnd(35),
+      ),
+    );
+    console.log(chalk.bold("─".repeat(120)));
+
+    for (const { source, target } of differences) {
+      const name =
+        `${source.TABLE_SCHEMA}.${source.TABLE_NAME}.${source.COLUMN_NAME}`.padEnd(
+          50,
         );
-        spinner.stop();
+      const srcDef = (source.COLUMN_DEFAULT ?? "NULL").padEnd(35);
+      const tgtDef = (target?.COLUMN_DEFAULT ?? "NULL").padEnd(35);
+
+      console.log(`  ${name}${chalk.green(srcDef)}${chalk.red(tgtDef)}`);
 
+      // Show EXTRA differences if any
+      if (source.EXTRA !== target?.EXTRA) {
         console.log(
-          chalk.cyan(
-            `\n📋 ${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME} (showing up to 5 of ${col.badRowCount}):`,
+          chalk.gray(
+            `    EXTRA: ${chalk.green(source.EXTRA || "(none)")} → ${chalk.red(target?.EXTRA || "(none)")}`.padStart(
+              50,
+            ),
           ),
         );
-        if (samples.length === 0) {
-          console.log(chalk.gray("   No rows found or access denied."));
-        } else {
-          console.table(samples);
-        }
-        spinner.start();
       }
-      spinner.stop();
-      continue;
     }
+    console.log();
 
-    if (action === "confirm") {
-      shouldProceed = true;
+    for (const kind of ["change_nullability", "change_attributes"] as const) {
+      const affected = differences
+        .filter(
+          ({ source, target }) =>
+            (source.IS_NULLABLE !== target?.IS_NULLABLE) ===
+            (kind === "change_nullability"),
+        )
+        .map(({ source }) => source);
+      if (
+        affected.length > 0 &&
+        !(await checkColumnDependencies(targetKnex, affected, kind))
+      ) {
+        await sourceKnex.destroy();
+        return 0;
+      }
     }
-  }
+    await printOnlineAlterChoice(
+      targetKnex,
+      differences.map(({ source, target }) =>
+        source.IS_NULLABLE !== target?.IS_NULLABLE
+          ? "change_nullability"
+          : "change_attributes",
+      ),
+      script,
+    );
 
-  const spinner = ora("Starting fixes...").start();
-  const fixed: ColumnInfo[] = [];
-  let totalAffected = 0;
+    const confirmed = await confirmOrAssume({
+      message: script
+        ? `Export ${differences.length} default changes from source to target?`
+        : `Apply ${differences.length} default changes from source to target?`,
+      default: false,
+    });
 
-  try {
-    for (let i = 0; i < toFix.length; i++) {
-      const col = toFix[i];
-      spinner.text = `[${i + 1}/${toFix.length}] Fixing ${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME}...`;
-      const affected = await fixBadRows(
-        col.TABLE_SCHEMA,
-        col.TABLE_NAME,
-        col.COLUMN_NAME,
-        knex,
-      );
-      totalAffected += affected;
-      fixed.push(col);
+    if (!confirmed) {
+      console.log(chalk.yellow("Aborted."));
+      await sourceKnex.destroy();
+      return 0;
     }
 
-    spinner.succeed(
-      chalk.green(
-        `All ${toFix.length} fixes applied successfully! (${totalAffected} total rows updated)`,
-      ),
+    // Apply changes
+    const steps = differences.map(({ source }) =>
+      addRunStep(journal, {
+        kind: "sync_default",
+        schema: source.TABLE_SCHEMA,
+        table: source.TABLE_NAME,
+        columns: [source.COLUMN_NAME],
+      }),
     );
-    return fixed;
+    const applySpinner = ora("Applying defaults...").start();
+    let applied = 0;
+    let failed = 0;
+
+    for (const [i, { source }] of differences.entries()) {
+      applySpinner.text = `[${applied + failed + 1}/${differences.length}] ${source.TABLE_SCHEMA}.${source.TABLE_NAME}.${source.COLUMN_NAME}...`;
+      try {
+        startRunStep(journal, steps[i]);
+        await recordSnapshot(
+          targetKnex,
+          journal,
+          source.TABLE_SCHEMA,
+          source.TABLE_NAME,
+          source.COLUMN_NAME,
+        );
+        finishRunStep(
+          journal,
+          steps[i],
+          await applyColumnDefault(targetKnex, sourceKnex, source, script),
+        );
+        applied++;
+      } catch (error) {
+        recordActionFailure(error);
+        failRunStep(journal, steps[i], error);
+        failed++;
+        applySpinner.stop();
+        console.log(
+          chalk.red(
+            `   ✗ Failed: ${source.TABLE_SCHEMA}.${source.TABLE_NAME}.${source.COLUMN_NAME}: ${error instanceof Error ? error.message : error}`,
+          ),
+        );
+        applySpinner.start();
+      }
+    }
+
+    if (failed === 0) {
+      applySpinner.succeed(
+        chalk.green(
+          script
+            ? `Recorded ${applied} default changes.`
+            : `Applied ${applied} default changes successfully!`,
+        ),
+      );
+    } else {
+      applySpinner.warn(
+        chalk.yellow(`Applied ${applied} changes, ${failed} failed.`),
+      );
+    }
+    announceRunJournal(journal);
+
+    await sourceKnex.destroy();
+    return applied;
   } catch (error) {
-    spinner.fail(
-      chalk.red(`Fix failed at column ${fixed.length + 1}/${toFix.length}.`),
-    );
+    spinner.fail("Failed to sync defaults.");
+    await sourceKnex.destroy();
+    recordActionFailure(error);
     console.error(error);
-    return fixed;
+    return 0;
   }
 }
 
-async function executeAllowNulls(
+// ============== Undo ==============
+async function executeUndo(
   knex: KnexType,
-  columns: ColumnInfo[],
-  selectedTables: TableSelection[],
-): Promise<ColumnInfo[]> {
-  const tableSet = new Set(selectedTables.map((t) => `${t.schema}.${t.table}`));
-  const toAllow = columns.filter(
-    (c) =>
-      c.badRowCount > 0 &&
-      c.IS_NULLABLE === "NO" &&
-      tableSet.has(`${c.TABLE_SCHEMA}.${c.TABLE_NAME}`),
-  );
-
-  if (toAllow.length === 0) {
-    console.log(
-      chalk.yellow("\nNo columns need NULL allowance in selected tables.\n"),
-    );
+  config: DbConfig,
+  backupId: string | undefined,
+  script: SqlScript | null = null,
+  batch: BatchOptions = DEFAULT_BATCH_OPTIONS,
+): Promise<ColumnBackup[]> {
+  const backups = listBackups(config);
+  if (backups.length === 0) {
+    console.log(chalk.yellow("\nNo backups found for this connection.\n"));
     return [];
   }
 
-  console.log(chalk.yellow("\nColumns to modify (allow NULL):"));
-  for (const col of toAllow) {
+  let backup: BackupFile | undefined;
+  if (backupId) {
+    backup = backups.find((b) => b.id === backupId);
+    if (!backup) {
+      throw new Error(`Backup "${backupId}" not found in ${BACKUP_DIR}`);
+    }
+  } else {
+    if (!inputOptions.interactive) {
+      throw new InputRequiredError(
+        "Backup selection",
+        "Pass --backup <id> to choose the backup to restore.",
+      );
+    }
+    backup = await select<BackupFile>({
+      message: "Select a backup to restore:",
+      choices: backups.map((b) => ({
+        name:
+          `${b.id}` +
+          chalk.gray(
+            ` (${b.columns.length} columns, ${b.columns.reduce((sum, c) => sum + c.rowCount, 0)} rows, ${formatCacheAge(b.createdAt)})`,
+          ) +
+          (b.restoredAt ? chalk.yellow(" [already restored]") : ""),
+        value: b,
+      })),
+    });
+  }
+
+  console.log(chalk.yellow("\nColumns to restore:"));
+  for (const entry of backup.columns) {
     console.log(
       chalk.gray(
-        `   • ${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME} (${col.badRowCount} bad rows)`,
+        `   • ${entry.schema}.${entry.table}.${entry.column} (${entry.rowCount} rows)`,
+      ),
+    );
+  }
+  if (backup.restoredAt) {
+    console.log(
+      chalk.yellow(
+        `\n⚠️  This backup was already restored ${formatCacheAge(backup.restoredAt)}.`,
       ),
     );
   }
 
-  const confirmed = await confirm({
-    message: `This will ALTER ${toAllow.length} column(s) to allow NULL. Continue?`,
+  const backedUp = backup.columns.map((entry) => ({
+    TABLE_SCHEMA: entry.schema,
+    TABLE_NAME: entry.table,
+    COLUMN_NAME: entry.column,
+  }));
+  if (!(await checkColumnDependencies(knex, backedUp, "update"))) {
+    return [];
+  }
+
+  const confirmed = await confirmOrAssume({
+    message: script
+      ? `Export restore statements for ${backup.columns.length} column(s)?`
+      : `This will write the original values back into ${backup.columns.length} column(s). Continue?`,
     default: false,
   });
 
@@ -913,84 +6760,133 @@ async function executeAllowNulls(
     return [];
   }
 
-  const spinner = ora("Starting modifications...").start();
-  const allowed: ColumnInfo[] = [];
+  const spinner = ora("Restoring backup...").start();
+  const restored: ColumnBackup[] = [];
+  let totalRestored = 0;
 
   try {
-    for (let i = 0; i < toAllow.length; i++) {
-      const col = toAllow[i];
-      spinner.text = `[${i + 1}/${toAllow.length}] Allowing NULL on ${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME}...`;
-      await allowNullOnColumn(
-        col.TABLE_SCHEMA,
-        col.TABLE_NAME,
-        col.COLUMN_NAME,
-        col.DATA_TYPE,
-        knex,
-      );
-      allowed.push(col);
+    for (let i = 0; i < backup.columns.length; i++) {
+      const entry = backup.columns[i];
+      spinner.text = `[${i + 1}/${backup.columns.length}] Restoring ${entry.schema}.${entry.table}.${entry.column}...`;
+      totalRestored += await restoreColumnBackup(knex, entry, batch, script);
+      restored.push(entry);
     }
 
-    spinner.succeed(
-      chalk.green(`All ${toAllow.length} columns modified successfully!`),
-    );
-    return allowed;
+    if (script) {
+      spinner.succeed(
+        chalk.green(`Recorded restores for ${restored.length} column(s).`),
+      );
+    } else {
+      backup.restoredAt = new Date().toISOString();
+      saveBackup(backup);
+      spinner.succeed(
+        chalk.green(
+          `Restored ${restored.length} column(s) (${totalRestored} rows).`,
+        ),
+      );
+    }
+    return restored;
   } catch (error) {
+    recordActionFailure(error);
     spinner.fail(
       chalk.red(
-        `Modification failed at column ${allowed.length + 1}/${toAllow.length}.`,
+        `Restore failed at column ${restored.length + 1}/${backup.columns.length}.`,
       ),
     );
     console.error(error);
-    return allowed;
+    return restored;
   }
 }
 
-async function executeTimestampConversions(
+// ============== Rollback ==============
+async function executeRollback(
   knex: KnexType,
-  columns: ColumnInfo[],
-  selectedTables: TableSelection[],
-): Promise<ColumnInfo[]> {
-  const tableSet = new Set(selectedTables.map((t) => `${t.schema}.${t.table}`));
-  const toConvert = columns.filter(
-    (c) =>
-      c.DATA_TYPE === "timestamp" &&
-      tableSet.has(`${c.TABLE_SCHEMA}.${c.TABLE_NAME}`),
+  config: DbConfig,
+  runId: string | undefined,
+  script: SqlScript | null = null,
+): Promise<ColumnSnapshot[]> {
+  const journals = listRunJournals(config).filter(
+    (j) => j.snapshots.length > 0,
   );
-
-  if (toConvert.length === 0) {
-    console.log(chalk.yellow("\nNo TIMESTAMP columns in selected tables.\n"));
+  if (journals.length === 0) {
+    console.log(chalk.yellow("\nNo runs found for this connection.\n"));
     return [];
   }
 
-  const hasProblems = toConvert.some((c) => c.badRowCount > 0);
+  let journal: RunJournal | undefined;
+  if (runId) {
+    journal = journals.find((j) => j.id === runId);
+    if (!journal) {
+      throw new Error(`Run "${runId}" not found in ${RUN_DIR}`);
+    }
+  } else {
+    if (!inputOptions.interactive) {
+      throw new InputRequiredError(
+        "Run selection",
+        "Pass --run <id> to choose the run to roll back.",
+      );
+    }
+    journal = await select<RunJournal>({
+      message: "Select a run to roll back:",
+      choices: journals.map((j) => ({
+        name:
+          `${j.id}` +
+          chalk.gray(
+            ` (${j.action}, ${j.snapshots.length} columns, ${formatCacheAge(j.createdAt)})`,
+          ) +
+          (j.rolledBackAt ? chalk.yellow(" [already rolled back]") : ""),
+        value: j,
+      })),
+    });
+  }
 
-  if (hasProblems) {
-    console.log(
-      chalk.red("\n⚠️  Some selected columns have bad data (0000-00-00)."),
-    );
+  // Keep the earliest snapshot per column: that is the pre-run state
+  const seen = new Set<string>();
+  const snapshots = journal.snapshots.filter((snap) => {
+    const key = `${snap.schema}.${snap.table}.${snap.column}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  console.log(chalk.yellow("\nColumns to restore:"));
+  for (const snap of snapshots) {
     console.log(
-      chalk.red("   Fix the bad data FIRST, then convert to DATETIME.\n"),
+      chalk.gray(
+        `   • ${snap.schema}.${snap.table}.${snap.column} → ${renderColumnDefinition(parseColumnDefinition(snap.definition))}`,
+      ),
     );
-
-    const proceed = await confirm({
-      message: "Proceed anyway? (May cause errors)",
-      default: false,
-    });
-
-    if (!proceed) return [];
   }
-
-  console.log(chalk.yellow("\nColumns to convert:"));
-  for (const col of toConvert) {
+  if (journal.rolledBackAt) {
     console.log(
-      chalk.gray(
-        `   • ${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME}`,
+      chalk.yellow(
+        `\n⚠️  This run was already rolled back ${formatCacheAge(journal.rolledBackAt)}.`,
       ),
     );
   }
 
-  const confirmed = await confirm({
-    message: `This will ALTER ${toConvert.length} column(s) from TIMESTAMP to DATETIME. Continue?`,
+  const kinds: AlterKind[] = [];
+  for (const snap of snapshots) {
+    kinds.push(await getRestoreAlterKind(knex, snap));
+  }
+  for (const kind of new Set(kinds)) {
+    const affected = snapshots
+      .filter((_, i) => kinds[i] === kind)
+      .map((snap) => ({
+        TABLE_SCHEMA: snap.schema,
+        TABLE_NAME: snap.table,
+        COLUMN_NAME: snap.column,
+      }));
+    if (!(await checkColumnDependencies(knex, affected, kind))) {
+      return [];
+    }
+  }
+  await printOnlineAlterChoice(knex, kinds, script);
+
+  const confirmed = await confirmOrAssume({
+    message: script
+      ? `Export ALTER statements restoring ${snapshots.length} column(s)?`
+      : `This will ALTER ${snapshots.length} column(s) back to their original definitions. Continue?`,
     default: false,
   });
 
@@ -999,200 +6895,591 @@ async function executeTimestampConversions(
     return [];
   }
 
-  const spinner = ora("Starting conversion...").start();
-  const converted: ColumnInfo[] = [];
+  // Undo in reverse order of the original run, one ALTER per table
+  const tables = new Map<string, ColumnSnapshot[]>();
+  for (const snap of [...snapshots].reverse()) {
+    const key = `${snap.schema}.${snap.table}`;
+    tables.set(key, [...(tables.get(key) ?? []), snap]);
+  }
+
+  const spinner = ora("Rolling back...").start();
+  const restored: ColumnSnapshot[] = [];
+  let tableIndex = 0;
 
   try {
-    for (let i = 0; i < toConvert.length; i++) {
-      const col = toConvert[i];
-      spinner.text = `[${i + 1}/${toConvert.length}] Converting ${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME}...`;
-      await convertTimestampToDatetime(
-        col.TABLE_SCHEMA,
-        col.TABLE_NAME,
-        col.COLUMN_NAME,
-        col.IS_NULLABLE,
-        col.COLUMN_DEFAULT,
+    for (const [key, tableSnapshots] of tables) {
+      tableIndex++;
+      spinner.text = `[${tableIndex}/${tables.size}] Restoring ${key} (${tableSnapshots.length} column(s))...`;
+      await restoreTableSnapshots(
         knex,
+        tableSnapshots,
+        tableSnapshots.map((snap) => kinds[snapshots.indexOf(snap)]),
+        script,
       );
-      converted.push(col);
+      restored.push(...tableSnapshots);
     }
 
-    spinner.succeed(
-      chalk.green(
-        `All ${toConvert.length} conversions completed successfully!`,
-      ),
-    );
-    return converted;
+    if (script) {
+      spinner.succeed(
+        chalk.green(`Recorded ${restored.length} column restores.`),
+      );
+    } else {
+      journal.rolledBackAt = new Date().toISOString();
+      saveRunJournal(journal);
+      spinner.succeed(
+        chalk.green(`Rolled back ${restored.length} column(s) successfully!`),
+      );
+    }
+    return restored;
   } catch (error) {
+    recordActionFailure(error);
     spinner.fail(
-      chalk.red(
-        `Conversion failed at column ${converted.length + 1}/${toConvert.length}.`,
-      ),
+      chalk.red(`Rollback failed at table ${tableIndex}/${tables.size}.`),
     );
     console.error(error);
-    return converted; // Return what was successfully converted
+    return restored;
   }
 }
 
-// ============== Sync Defaults ==============
-async function executeSyncDefaults(
-  targetKnex: KnexType,
-  schemas: string[],
-): Promise<number> {
-  const sourceConfig = getSourceConfig();
-  if (!sourceConfig) {
-    console.log(chalk.red("\nSOURCE_DB_HOST not configured in .env\n"));
-    return 0;
+// ============== Resume ==============
+const STEP_STATUS_ICONS: Record<RunStepStatus, string> = {
+  pending: chalk.gray("○"),
+  running: chalk.yellow("◐"),
+  done: chalk.green("✓"),
+  failed: chalk.red("✗"),
+};
+
+function describeRunStep(step: RunStep): string {
+  const columns =
+    step.columns.length === 1
+      ? step.columns[0]
+      : `{${step.columns.join(", ")}}`;
+  let detail = "";
+  if (step.kind === "fix" && step.strategy) {
+    detail = ` → ${describeReplaceStrategy(step.strategy)}`;
+  } else if (step.kind === "convert" && step.timeZone) {
+    detail = ` in ${step.timeZone}`;
+  }
+  return `${step.kind} ${step.schema}.${step.table}.${columns}${detail}`;
+}
+
+// The column as it is now, or null when it no longer exists
+async function loadLiveColumn(
+  knex: KnexType,
+  schema: string,
+  table: string,
+  column: string,
+): Promise<ColumnInfo | null> {
+  let definition: ColumnDefinition;
+  try {
+    const definitions = await readColumnDefinitions(knex, schema, table, [
+      column,
+    ]);
+    definition = definitions.get(column)!;
+  } catch {
+    return null;
+  }
+
+  const dataType = definition.dataType as DateDataType;
+  const counts = await countBadRows(knex, schema, table, column, dataType);
+  return {
+    TABLE_SCHEMA: schema,
+    TABLE_NAME: table,
+    COLUMN_NAME: column,
+    DATA_TYPE: dataType,
+    IS_NULLABLE: definition.nullable ? "YES" : "NO",
+    COLUMN_DEFAULT: definition.columnDefault,
+    badRowCount: counts ? totalBadRows(counts) : -1,
+    badRowCounts: counts ?? EMPTY_BAD_ROW_COUNTS,
+  };
+}
+
+// Mirrors the filters the executors apply, so a step whose work is already
+// visible in the live schema is not run twice
+function isStepNeeded(kind: RunStepKind, col: ColumnInfo): boolean {
+  switch (kind) {
+    case "allow_null":
+      return col.IS_NULLABLE === "NO" && mayHaveBadRows(col);
+    case "convert":
+      return col.DATA_TYPE === "timestamp";
+    case "fix":
+      return col.badRowCount > 0;
+    case "sync_default":
+      return true;
+  }
+}
+
+// Re-checks every unfinished step of a run against the live columns, then
+// hands the remaining work to the regular executors with the same journal
+async function executeResume(
+  knex: KnexType,
+  config: DbConfig,
+  runId: string | undefined,
+  script: SqlScript | null = null,
+  fixOptions: FixOptions = {
+    backup: null,
+    batch: DEFAULT_BATCH_OPTIONS,
+    progress: null,
+    throttle: null,
+    replaceRules: [],
+    journal: null,
+    costSort: "name",
+  },
+): Promise<ColumnInfo[]> {
+  // Finished runs stay on disk as a record, but have nothing to resume
+  const journals = listRunJournals(config).filter(
+    (j) => !j.finishedAt && getUnfinishedSteps(j).length > 0,
+  );
+  if (journals.length === 0) {
+    console.log(
+      chalk.green("\n✓ No unfinished runs found for this connection.\n"),
+    );
+    return [];
+  }
+
+  let journal: RunJournal | undefined;
+  if (runId) {
+    journal = journals.find((j) => j.id === runId);
+    if (!journal) {
+      throw new Error(`Unfinished run "${runId}" not found in ${RUN_DIR}`);
+    }
+  } else {
+    if (!inputOptions.interactive) {
+      throw new InputRequiredError(
+        "Run selection",
+        "Pass --run <id> to choose the run to resume.",
+      );
+    }
+    journal = await select<RunJournal>({
+      message: "Select a run to resume:",
+      choices: journals.map((j) => ({
+        name:
+          `${j.id}` +
+          chalk.gray(
+            ` (${j.action}${j.plan ? ` ${path.basename(j.plan)}` : ""}, ${getUnfinishedSteps(j).length} of ${j.steps!.length} steps left, ${formatCacheAge(j.createdAt)})`,
+          ),
+        value: j,
+      })),
+    });
   }
 
   console.log(
-    chalk.cyan(
-      `\nConnecting to source: ${sourceConfig.host}:${sourceConfig.port}`,
-    ),
+    chalk.yellow(`\nSteps of run ${journal.id} (${journal.action}):`),
   );
-  const sourceKnex = createKnex(sourceConfig);
+  for (const step of journal.steps ?? []) {
+    console.log(
+      `   ${STEP_STATUS_ICONS[step.status]} ${chalk.gray(describeRunStep(step))}` +
+        (step.error ? chalk.red(` (${step.error})`) : ""),
+    );
+  }
 
-  const spinner = ora("Fetching column defaults from source...").start();
+  // Dry runs read the journal but never update it
+  const tracked = script ? null : journal;
+  const spinner = ora("Checking live column state...").start();
+  const pending: { step: RunStep; columns: ColumnInfo[] }[] = [];
+  const affected: ColumnInfo[] = [];
+  let alreadyDone = 0;
+
+  for (const step of getUnfinishedSteps(journal)) {
+    if (step.kind === "sync_default") {
+      // Compared against the source again by the sync executor
+      pending.push({ step, columns: [] });
+      continue;
+    }
 
-  try {
-    // Get defaults from source
-    const sourceDefaults = await getColumnDefaults(sourceKnex, schemas);
-    spinner.text = `Found ${sourceDefaults.length} date columns in source.`;
+    const live: ColumnInfo[] = [];
+    for (const name of step.columns) {
+      spinner.text = `Checking ${step.schema}.${step.table}.${name}...`;
+      const col = await loadLiveColumn(knex, step.schema, step.table, name);
+      if (col) live.push(col);
+    }
+    if (live.length < step.columns.length) {
+      failRunStep(tracked, step, "column no longer exists");
+      continue;
+    }
 
-    // Get current state from target
-    const targetDefaults = await getColumnDefaults(targetKnex, schemas);
-    spinner.succeed(
-      `Source: ${sourceDefaults.length} columns, Target: ${targetDefaults.length} columns`,
+    const remaining = live.filter((col) => isStepNeeded(step.kind, col));
+    if (remaining.length === 0) {
+      // Finished before the interruption: only the cache missed it
+      finishRunStep(tracked, step, 0);
+      affected.push(...live);
+      alreadyDone++;
+      continue;
+    }
+    pending.push({ step, columns: remaining });
+  }
+  spinner.succeed(
+    `${alreadyDone} step(s) already complete in the live schema, ${pending.length} left to run.`,
+  );
+
+  const byKind = (kind: RunStepKind) =>
+    pending.filter((p) => p.step.kind === kind);
+
+  const toAllow = byKind("allow_null").flatMap((p) => p.columns);
+  if (toAllow.length > 0) {
+    affected.push(
+      ...(await executeAllowNulls(
+        knex,
+        toAllow,
+        toTableSelections(toAllow),
+        script,
+        tracked,
+        fixOptions.costSort,
+      )),
     );
+  }
 
-    // Build lookup for target columns
-    const targetMap = new Map<string, ColumnDefault>();
-    for (const col of targetDefaults) {
+  const fixSteps = byKind("fix");
+  if (fixSteps.length > 0) {
+    const allowedKeys = new Set(
+      affected.map((c) => `${c.TABLE_SCHEMA}.${c.TABLE_NAME}.${c.COLUMN_NAME}`),
+    );
+    const toFix = fixSteps.map(({ columns: [col] }): ColumnInfo => {
       const key = `${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME}`;
-      targetMap.set(key, col);
-    }
+      return allowedKeys.has(key) ? { ...col, IS_NULLABLE: "YES" } : col;
+    });
+    affected.push(
+      ...(await executeNullFixes(
+        knex,
+        toFix,
+        toTableSelections(toFix),
+        script,
+        {
+          ...fixOptions,
+          replaceRules: fixSteps.map(({ step }) => ({
+            pattern: `${step.schema}.${step.table}.${step.columns[0]}`,
+            strategy: step.strategy ?? { kind: "null" },
+          })),
+          journal: tracked,
+        },
+      )),
+    );
+  }
 
-    // Find differences
-    const differences: {
-      source: ColumnDefault;
-      target: ColumnDefault | undefined;
-    }[] = [];
-    for (const srcCol of sourceDefaults) {
-      const key = `${srcCol.TABLE_SCHEMA}.${srcCol.TABLE_NAME}.${srcCol.COLUMN_NAME}`;
-      const tgtCol = targetMap.get(key);
+  // Each step converts in the zone it was started with
+  const convertSteps = byKind("convert");
+  const timeZones = new Set(
+    convertSteps.map((p) => p.step.timeZone ?? "session"),
+  );
+  for (const timeZone of timeZones) {
+    const toConvert = convertSteps
+      .filter((p) => (p.step.timeZone ?? "session") === timeZone)
+      .flatMap((p) => p.columns);
+    affected.push(
+      ...(await executeTimestampConversions(
+        knex,
+        toConvert,
+        toTableSelections(toConvert),
+        script,
+        tracked,
+        fixOptions.throttle,
+        timeZone,
+        fixOptions.costSort,
+      )),
+    );
+  }
 
-      if (!tgtCol) {
-        // Column doesn't exist in target - skip
-        continue;
-      }
+  const syncSteps = byKind("sync_default");
+  if (syncSteps.length > 0) {
+    await executeSyncDefaults(
+      knex,
+      [...new Set(syncSteps.map((p) => p.step.schema))],
+      script,
+      tracked,
+    );
+  }
 
-      // Check if defaults differ
-      const srcDefault = srcCol.COLUMN_DEFAULT ?? "(none)";
-      const tgtDefault = tgtCol.COLUMN_DEFAULT ?? "(none)";
-      const srcExtra = srcCol.EXTRA || "";
-      const tgtExtra = tgtCol.EXTRA || "";
+  if (tracked && getUnfinishedSteps(tracked).length === 0) {
+    console.log(chalk.green(`\n✓ Run ${tracked.id} is complete.\n`));
+  }
+  return affected;
+}
 
-      if (srcDefault !== tgtDefault || srcExtra !== tgtExtra) {
-        differences.push({ source: srcCol, target: tgtCol });
-      }
-    }
+// ============== Fix Plans ==============
+// A plan is a reviewed, editable list of per-column decisions taken from a
+// scan. It can be applied later, and to other servers with the same schema.
+function buildFixPlan(
+  columns: ColumnInfo[],
+  config: DbConfig,
+  scannedAt: string | null,
+): FixPlan {
+  const planned = columns.filter(
+    (c) => mayHaveBadRows(c) || c.DATA_TYPE === "timestamp",
+  );
 
-    if (differences.length === 0) {
-      console.log(chalk.green("\n✓ All column defaults already match!\n"));
-      await sourceKnex.destroy();
-      return 0;
-    }
+  return {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    scannedAt,
+    source: { host: config.host, port: config.port },
+    columns: planned.map((c) => ({
+      schema: c.TABLE_SCHEMA,
+      table: c.TABLE_NAME,
+      column: c.COLUMN_NAME,
+      dataType: c.DATA_TYPE,
+      nullable: c.IS_NULLABLE === "YES",
+      badRows: c.badRowCount,
+      // Only the safe default is pre-selected; everything else is a decision
+      strategy: mayHaveBadRows(c) && c.IS_NULLABLE === "YES" ? "null" : "skip",
+    })),
+  };
+}
 
-    // Display differences
-    console.log(
-      chalk.yellow(
-        `\nFound ${differences.length} column(s) with different defaults:\n`,
-      ),
+function writeFixPlan(filePath: string, plan: FixPlan): void {
+  const content =
+    path.extname(filePath).toLowerCase() === ".json"
+      ? JSON.stringify(plan, null, 2) + "\n"
+      : stringifyYaml(plan);
+  fs.writeFileSync(filePath, content, "utf-8");
+}
+
+// YAML is a superset of JSON, so one parser reads both formats
+function loadFixPlan(filePath: string): FixPlan {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Plan file not found: ${filePath}`);
+  }
+  const plan = parseYaml(fs.readFileSync(filePath, "utf-8")) as FixPlan;
+  if (plan?.version !== 1 || !Array.isArray(plan.columns)) {
+    throw new Error(
+      `${filePath} is not a version 1 fix plan (expected "version: 1" and a "columns" list)`,
     );
-    console.log(chalk.bold("─".repeat(120)));
-    console.log(
-      chalk.bold(
-        "  Column".padEnd(50) +
-          "Source Default".padEnd(35) +
-          "Target Default".padEnd(35),
-      ),
+  }
+  return plan;
+}
+
+// Checks a plan entry against the live column; returns the column as the
+// executors expect it, or the reasons the entry cannot be applied
+async function validatePlanColumn(
+  knex: KnexType,
+  entry: PlanColumn,
+): Promise<{ column: ColumnInfo | null; errors: string[] }> {
+  const name = `${entry.schema}.${entry.table}.${entry.column}`;
+  const fail = (message: string) => ({
+    column: null,
+    errors: [`${name}: ${message}`],
+  });
+
+  if (!PLAN_STRATEGIES.includes(entry.strategy)) {
+    return fail(
+      `unknown strategy "${entry.strategy}" (use ${PLAN_STRATEGIES.join(", ")})`,
     );
-    console.log(chalk.bold("─".repeat(120)));
+  }
 
-    for (const { source, target } of differences) {
-      const name =
-        `${source.TABLE_SCHEMA}.${source.TABLE_NAME}.${source.COLUMN_NAME}`.padEnd(
-          50,
-        );
-      const srcDef = (source.COLUMN_DEFAULT ?? "NULL").padEnd(35);
-      const tgtDef = (target?.COLUMN_DEFAULT ?? "NULL").padEnd(35);
+  let definition: ColumnDefinition;
+  try {
+    const definitions = await readColumnDefinitions(
+      knex,
+      entry.schema,
+      entry.table,
+      [entry.column],
+    );
+    definition = definitions.get(entry.column)!;
+  } catch {
+    return fail("column not found");
+  }
 
-      console.log(`  ${name}${chalk.green(srcDef)}${chalk.red(tgtDef)}`);
+  if (definition.dataType !== entry.dataType) {
+    return fail(
+      `type changed from ${entry.dataType} to ${definition.dataType} since the plan was made`,
+    );
+  }
 
-      // Show EXTRA differences if any
-      if (source.EXTRA !== target?.EXTRA) {
-        console.log(
-          chalk.gray(
-            `    EXTRA: ${chalk.green(source.EXTRA || "(none)")} → ${chalk.red(target?.EXTRA || "(none)")}`.padStart(
-              50,
-            ),
-          ),
+  const counts =
+    entry.strategy === "skip"
+      ? EMPTY_BAD_ROW_COUNTS
+      : await countBadRows(
+          knex,
+          entry.schema,
+          entry.table,
+          entry.column,
+          entry.dataType,
         );
+  if (!counts) {
+    return fail("could not count bad rows");
+  }
+
+  const column: ColumnInfo = {
+    TABLE_SCHEMA: entry.schema,
+    TABLE_NAME: entry.table,
+    COLUMN_NAME: entry.column,
+    DATA_TYPE: entry.dataType,
+    IS_NULLABLE: definition.nullable ? "YES" : "NO",
+    COLUMN_DEFAULT: definition.columnDefault,
+    badRowCount: totalBadRows(counts),
+    badRowCounts: counts,
+  };
+
+  const errors: string[] = [];
+  if (entry.strategy === "null" && !definition.nullable) {
+    errors.push(`${name}: is NOT NULL; use allow_null or replace instead`);
+  }
+  if (entry.strategy === "convert" && entry.dataType !== "timestamp") {
+    errors.push(`${name}: only TIMESTAMP columns can be converted`);
+  }
+  if (entry.strategy === "replace") {
+    try {
+      if (!entry.replaceWith) {
+        throw new Error(`${name}: replace needs a replaceWith value`);
       }
+      await resolveReplacement(
+        knex,
+        column,
+        parseReplaceStrategy(entry.replaceWith),
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(message.startsWith(name) ? message : `${name}: ${message}`);
     }
-    console.log();
+  }
 
-    const confirmed = await confirm({
-      message: `Apply ${differences.length} default changes from source to target?`,
-      default: false,
-    });
+  return { column: errors.length === 0 ? column : null, errors };
+}
 
-    if (!confirmed) {
-      console.log(chalk.yellow("Aborted."));
-      await sourceKnex.destroy();
-      return 0;
-    }
+function toTableSelections(columns: ColumnInfo[]): TableSelection[] {
+  return listTableGroups(columns).map(({ schema, table }) => ({
+    schema,
+    table,
+  }));
+}
 
-    // Apply changes
-    const applySpinner = ora("Applying defaults...").start();
-    let applied = 0;
-    let failed = 0;
+// Validates the whole plan first, then runs allow_null ALTERs, data fixes
+// and conversions in that order through the regular executors
+async function executeApply(
+  knex: KnexType,
+  config: DbConfig,
+  planPath: string,
+  script: SqlScript | null = null,
+  fixOptions: FixOptions = {
+    backup: null,
+    batch: DEFAULT_BATCH_OPTIONS,
+    progress: null,
+    throttle: null,
+    replaceRules: [],
+    journal: null,
+    costSort: "name",
+  },
+): Promise<ColumnInfo[]> {
+  const plan = loadFixPlan(planPath);
+  const active = plan.columns.filter((c) => c.strategy !== "skip");
 
-    for (const { source } of differences) {
-      applySpinner.text = `[${applied + failed + 1}/${differences.length}] ${source.TABLE_SCHEMA}.${source.TABLE_NAME}.${source.COLUMN_NAME}...`;
-      try {
-        await applyColumnDefault(targetKnex, source);
-        applied++;
-      } catch (error) {
-        failed++;
-        applySpinner.stop();
-        console.log(
-          chalk.red(
-            `   ✗ Failed: ${source.TABLE_SCHEMA}.${source.TABLE_NAME}.${source.COLUMN_NAME}: ${error instanceof Error ? error.message : error}`,
-          ),
-        );
-        applySpinner.start();
-      }
-    }
+  console.log(
+    chalk.cyan(
+      `\nPlan ${path.basename(planPath)}: ${active.length} of ${plan.columns.length} column(s) to change (made ${formatCacheAge(plan.createdAt)} from ${plan.source.host}:${plan.source.port})`,
+    ),
+  );
+  if (active.length === 0) {
+    console.log(chalk.yellow("\nNothing to apply: every column is skip.\n"));
+    return [];
+  }
 
-    if (failed === 0) {
-      applySpinner.succeed(
-        chalk.green(`Applied ${applied} default changes successfully!`),
-      );
-    } else {
-      applySpinner.warn(
-        chalk.yellow(`Applied ${applied} changes, ${failed} failed.`),
+  const spinner = ora("Validating plan against the live schema...").start();
+  const planned = new Map<PlanColumn, ColumnInfo>();
+  const errors: string[] = [];
+  for (const [i, entry] of active.entries()) {
+    spinner.text = `[${i + 1}/${active.length}] Validating ${entry.schema}.${entry.table}.${entry.column}...`;
+    const result = await validatePlanColumn(knex, entry);
+    errors.push(...result.errors);
+    if (result.column) planned.set(entry, result.column);
+  }
+
+  if (errors.length > 0) {
+    spinner.fail(chalk.red(`Plan has ${errors.length} problem(s):`));
+    for (const error of errors) {
+      console.log(chalk.red(`   ✗ ${error}`));
+    }
+    throw new Error("Plan does not match the live schema; nothing was changed");
+  }
+  spinner.succeed("Plan matches the live schema.");
+
+  const byStrategy = (...strategies: PlanStrategy[]) =>
+    [...planned]
+      .filter(([entry]) => strategies.includes(entry.strategy))
+      .map(([, column]) => column);
+  // Rows may have been fixed since the plan was made. allow_null columns stay
+  // NOT NULL then, as allow_nulls leaves columns without bad rows alone.
+  const clean = byStrategy("null", "replace", "allow_null").filter(
+    (c) => !mayHaveBadRows(c),
+  );
+  if (clean.length > 0) {
+    console.log(
+      chalk.yellow(
+        `\nSkipping ${clean.length} column(s) with no bad rows left:`,
+      ),
+    );
+    for (const col of clean) {
+      console.log(
+        chalk.gray(
+          `   • ${col.TABLE_SCHEMA}.${col.TABLE_NAME}.${col.COLUMN_NAME}`,
+        ),
       );
     }
+  }
 
-    await sourceKnex.destroy();
-    return applied;
-  } catch (error) {
-    spinner.fail("Failed to sync defaults.");
-    console.error(error);
-    await sourceKnex.destroy();
-    return 0;
+  const journal = script ? null : createRunJournal(config, "apply", planPath);
+  const affected: ColumnInfo[] = [];
+
+  // NOT NULL columns planned as allow_null must accept NULL before the fix
+  const toAllow = byStrategy("allow_null").filter(
+    (c) => c.IS_NULLABLE === "NO" && mayHaveBadRows(c),
+  );
+  let notAllowed = new Set<ColumnInfo>();
+  if (toAllow.length > 0) {
+    const allowed = await executeAllowNulls(
+      knex,
+      toAllow,
+      toTableSelections(toAllow),
+      script,
+      journal,
+      fixOptions.costSort,
+    );
+    for (const col of allowed) col.IS_NULLABLE = "YES";
+    affected.push(...allowed);
+    notAllowed = new Set(toAllow.filter((c) => !allowed.includes(c)));
+  }
+
+  const replaceRules: ReplaceRule[] = [...planned].map(([entry, column]) => ({
+    pattern: `${column.TABLE_SCHEMA}.${column.TABLE_NAME}.${column.COLUMN_NAME}`,
+    strategy:
+      entry.strategy === "replace"
+        ? parseReplaceStrategy(entry.replaceWith!)
+        : { kind: "null" },
+  }));
+  const toFix = byStrategy("null", "replace", "allow_null").filter(
+    (c) => mayHaveBadRows(c) && !notAllowed.has(c),
+  );
+  if (toFix.length > 0) {
+    affected.push(
+      ...(await executeNullFixes(
+        knex,
+        toFix,
+        toTableSelections(toFix),
+        script,
+        {
+          ...fixOptions,
+          replaceRules,
+          journal,
+        },
+      )),
+    );
+  }
+
+  const toConvert = byStrategy("convert");
+  if (toConvert.length > 0) {
+    affected.push(
+      ...(await executeTimestampConversions(
+        knex,
+        toConvert,
+        toTableSelections(toConvert),
+        script,
+        journal,
+        fixOptions.throttle,
+        plan.timeZone,
+        fixOptions.costSort,
+      )),
+    );
   }
+
+  return affected;
 }
 
 // ============== Main ==============
@@ -1204,25 +7491,379 @@ async function main(): Promise<void> {
     .description(
       "MySQL Date Fixer Tool - Fix zero dates and 2038 timestamp issues",
     )
+    .option(
+      "--config <file>",
+      "Connection profile file (YAML or JSON)",
+      DEFAULT_PROFILE_FILE,
+    )
+    .option("-p, --profile <name>", "Connection profile of the database to fix")
+    .option(
+      "--source-profile <name>",
+      `sync_defaults: connection profile to read defaults from (default: "${DEFAULT_SOURCE_PROFILE}" if defined, else SOURCE_DB_* env)`,
+    )
     .option(
       "-a, --action <action>",
-      "Action to perform: scan, report, fix_nulls, allow_nulls, convert_timestamps",
+      "Action to perform: scan, report, fix_nulls, allow_nulls, convert_timestamps, sync_defaults, undo, rollback, check, plan, apply, resume, audit, diff",
+    )
+    .option(
+      "--dry-run",
+      "Write the UPDATE/ALTER statements to a .sql file instead of executing them",
+    )
+    .option(
+      "--sql-output <file>",
+      "File to write dry-run SQL to; later exports in the session add -2, -3, ... (default: db-fixer-<action>-<time>.sql)",
+    )
+    .option(
+      "-s, --schemas <list>",
+      "Comma-separated schemas to scan (skips the schema prompt)",
+    )
+    .option(
+      "-t, --tables <list>",
+      "Comma-separated tables to act on, as schema.table or table (* wildcards allowed)",
+    )
+    .option(
+      "-f, --format <format>",
+      `Report format: ${REPORT_FORMATS.join(", ")}`,
+      "table",
+    )
+    .option("-o, --output <file>", "Write the report to a file")
+    .option(
+      "--max-bad-rows <n>",
+      "check: bad rows allowed before failing",
+      parseNonNegativeInt,
+      0,
+    )
+    .option(
+      "--max-unfixable <n>",
+      "check: NOT NULL columns with bad data allowed before failing",
+      parseNonNegativeInt,
+      0,
+    )
+    .option(
+      "--max-timestamps <n>",
+      "check: TIMESTAMP columns allowed before failing",
+      parseNonNegativeInt,
+      0,
+    )
+    .option(
+      "--max-scan-errors <n>",
+      "check: columns that could not be scanned allowed before failing",
+      parseNonNegativeInt,
+      0,
+    )
+    .option(
+      "--max-unverified <n>",
+      "check: sampled columns with no bad rows in the sample allowed before failing",
+      parseNonNegativeInt,
+      0,
+    )
+    .option(
+      "--allowlist <file>",
+      "check: file of schema.table.column patterns to ignore",
+    )
+    .option(
+      "--no-backup",
+      "fix_nulls: do not back up original values before updating",
+    )
+    .option("--backup <id>", "undo: backup to restore (default: prompt)")
+    .option(
+      "--replace <rule>",
+      "fix_nulls: replacement for matching columns, as <schema.table.column>=<null|default|column:name|literal:value> (repeatable, * wildcards)",
+      parseReplaceRule,
+      [],
+    )
+    .option(
+      "--batch-size <n>",
+      "fix_nulls: rows per UPDATE batch, in primary-key order (0 = unbatched)",
+      parseNonNegativeInt,
+      DEFAULT_BATCH_OPTIONS.size,
+    )
+    .option(
+      "--batch-sleep <ms>",
+      "fix_nulls: pause between batches in milliseconds",
+      parseNonNegativeInt,
+      DEFAULT_BATCH_OPTIONS.sleepMs,
+    )
+    .option(
+      "--run <id>",
+      "rollback/resume: run to roll back or resume (default: prompt)",
+    )
+    .option(
+      "--plan <file>",
+      `plan/apply: fix plan file, YAML or .json (default: ${DEFAULT_PLAN_FILE})`,
+    )
+    .option(
+      "--replicas <list>",
+      "Replicas (host[:port], comma-separated) whose lag pauses fixes (default: REPLICA_HOSTS)",
+    )
+    .option(
+      "--max-replica-lag <s>",
+      "Pause fixes while any replica is more than this many seconds behind",
+      parseNonNegativeInt,
+      DEFAULT_MAX_REPLICA_LAG,
+    )
+    .option(
+      "--max-threads-running <n>",
+      "Pause fixes while the primary's Threads_running exceeds this (0 = off)",
+      parseNonNegativeInt,
+      0,
+    )
+    .option(
+      "--throttle-interval <ms>",
+      "How often to re-check load while paused",
+      parseNonNegativeInt,
+      DEFAULT_THROTTLE_POLL_MS,
+    )
+    .option(
+      "--time-zone <zone>",
+      'Zone for converted DATETIME values: "UTC", a named zone, an offset like +02:00, or "session"',
+    )
+    .option(
+      "--online <mode>",
+      `How ALTERs run: ${ONLINE_MODES.join(", ")} (pt-osc/gh-ost write a shell script of tool commands)`,
+      "native",
+    )
+    .option(
+      "--sort-tables <key>",
+      `allow_nulls/convert_timestamps: order tables by ${COST_SORTS.join(", ")} (largest first)`,
+      "name",
+    )
+    .option(
+      "--ignore-dependencies",
+      "Proceed even when foreign keys or other dependent objects block a change",
+    )
+    .option(
+      "--scan-concurrency <n>",
+      "Tables scanned in parallel",
+      parsePositiveInt,
+      DEFAULT_SCAN_OPTIONS.concurrency,
+    )
+    .option(
+      "--sample-above <rows>",
+      "Estimate bad rows from a sample in tables with more rows than this (0 = always count exactly)",
+      parseNonNegativeInt,
+      DEFAULT_SCAN_OPTIONS.sampleAboveRows,
+    )
+    .option(
+      "--sample-size <rows>",
+      "Rows read per sampled table",
+      parsePositiveInt,
+      DEFAULT_SCAN_OPTIONS.sampleSize,
+    )
+    .option("-y, --yes", "Answer yes to all confirmation prompts")
+    .option(
+      "--from <id>",
+      "diff: older scan to compare (default: prompt, or the scan before --to)",
+    )
+    .option("--to <id>", "diff: newer scan to compare (default: latest)")
+    .option(
+      "--no-cache",
+      "Neither read nor write the scan cache and scan history",
+    )
+    .option(
+      "--history-limit <scans>",
+      "Scans of this connection kept in history (0 = keep all)",
+      parseNonNegativeInt,
+      historyOptions.limit,
+    )
+    .option(
+      "--full-scan",
+      "Rescan every table, even those unchanged since the cached scan",
+    )
+    .option("--exit-after", "Exit after the --action completes")
+    .option(
+      "--non-interactive",
+      "Never prompt; fail when input is missing (implied without a TTY)",
     )
     .parse(process.argv);
 
-  const options = program.opts<{ action?: string }>();
+  const options = program.opts<{
+    action?: string;
+    dryRun?: boolean;
+    sqlOutput?: string;
+    schemas?: string;
+    tables?: string;
+    format: string;
+    output?: string;
+    maxBadRows: number;
+    maxUnfixable: number;
+    maxTimestamps: number;
+    maxScanErrors: number;
+    maxUnverified: number;
+    allowlist?: string;
+    backup: boolean | string;
+    batchSize: number;
+    batchSleep: number;
+    replace: ReplaceRule[];
+    plan?: string;
+    replicas?: string;
+    maxReplicaLag: number;
+    maxThreadsRunning: number;
+    throttleInterval: number;
+    timeZone?: string;
+    online: string;
+    sortTables: string;
+    ignoreDependencies?: boolean;
+    scanConcurrency: number;
+    sampleAbove: number;
+    sampleSize: number;
+    run?: string;
+    from?: string;
+    to?: string;
+    yes?: boolean;
+    cache: boolean;
+    historyLimit: number;
+    fullScan?: boolean;
+    exitAfter?: boolean;
+    nonInteractive?: boolean;
+    config: string;
+    profile?: string;
+    sourceProfile?: string;
+  }>();
+
+  if (options.action && !ACTIONS.includes(options.action as Action)) {
+    program.error(
+      `error: unknown action "${options.action}". Expected one of: ${ACTIONS.join(", ")}`,
+    );
+  }
 
+  if (!REPORT_FORMATS.includes(options.format as ReportFormat)) {
+    program.error(
+      `error: unknown format "${options.format}". Expected one of: ${REPORT_FORMATS.join(", ")}`,
+    );
+  }
+  const reportFormat = options.format as ReportFormat;
+  if (
+    options.action &&
+    JSON_ONLY_ACTIONS.includes(options.action as Action) &&
+    !["table", "json"].includes(reportFormat)
+  ) {
+    program.error(
+      `error: --action ${options.action} only supports --format table or json`,
+    );
+  }
+  if (!ONLINE_MODES.includes(options.online as OnlineMode)) {
+    program.error(
+      `error: unknown online mode "${options.online}". Expected one of: ${ONLINE_MODES.join(", ")}`,
+    );
+  }
+  onlineOptions.mode = options.online as OnlineMode;
+  if (!COST_SORTS.includes(options.sortTables as CostSort)) {
+    program.error(
+      `error: unknown table order "${options.sortTables}". Expected one of: ${COST_SORTS.join(", ")}`,
+    );
+  }
+  const costSort = options.sortTables as CostSort;
+  dependencyOptions.ignoreBlockers = options.ignoreDependencies ?? false;
+  historyOptions.limit = options.historyLimit;
+  if (options.output && reportFormat === "table") {
+    program.error(
+      `error: --output needs a machine-readable --format (${REPORT_FORMATS.filter((f) => f !== "table").join(", ")})`,
+    );
+  }
+  inputOptions.interactive =
+    Boolean(process.stdin.isTTY) && !options.nonInteractive;
+  inputOptions.yes = options.yes ?? false;
+  inputOptions.schemas = options.schemas ? parseList(options.schemas) : null;
+  inputOptions.tables = options.tables ? parseList(options.tables) : null;
+
+  // Without a TTY there is nobody to pick the next action
+  const exitAfter = options.exitAfter || !inputOptions.interactive;
+
+  profileOptions.file = options.config;
+  profileOptions.profile = options.profile ?? null;
+  profileOptions.sourceProfile = options.sourceProfile ?? null;
   const config = getConfig();
-  const knex = createKnex(config);
+  const scanOptions: ScanOptions = {
+    concurrency: options.scanConcurrency,
+    sampleAboveRows: options.sampleAbove,
+    sampleSize: options.sampleSize,
+  };
+  const knex = createKnex(
+    config,
+    Math.max(DEFAULT_POOL_SIZE, scanOptions.concurrency),
+  );
+  const throttle = createThrottle({
+    replicas: getReplicaConfigs(config, options.replicas),
+    maxReplicaLag: options.maxReplicaLag,
+    maxThreadsRunning: options.maxThreadsRunning,
+    pollMs: options.throttleInterval,
+  });
 
   console.log(chalk.cyan.bold("\n🔍 MySQL Date Fixer Tool"));
-  console.log(chalk.gray(`   Host: ${config.host}:${config.port}`));
-  console.log(chalk.gray(`   User: ${config.user}\n`));
+  if (profileOptions.profile) {
+    console.log(chalk.gray(`   Profile: ${profileOptions.profile}`));
+  }
+  console.log(chalk.gray(`   Host: ${describeConnection(config)}`));
+  console.log(
+    chalk.gray(
+      `   User: ${config.user}${config.ssl ? chalk.green(" (TLS)") : ""}\n`,
+    ),
+  );
 
   // Load cache if available
-  const cache = loadCache(config);
+  const cache = options.cache ? loadCache(config) : null;
   let columns: ColumnInfo[] = [];
+  let fingerprints: TableFingerprint[] = [];
   let selectedSchemas: string[] = [];
+  let scannedAt: string | null = null;
+  let dryRun = options.dryRun ?? false;
+  let exitCode = 0;
+
+  // In dry-run mode each executor records into a fresh script, which is then
+  // written out for review instead of rescanning the affected columns.
+  // pt-osc/gh-ost modes always record ALTER actions, since the tools run them.
+  const createActionScript = (action: Action): SqlScript | null =>
+    dryRun ||
+    (isOnlineTool(onlineOptions.mode) && ONLINE_TOOL_ACTIONS.includes(action))
+      ? createSqlScript()
+      : null;
+
+  let scriptExports = 0;
+  const exportScript = (action: Action, script: SqlScript): void => {
+    if (script.statements.length === 0) {
+      console.log(chalk.yellow("\nNo statements to export.\n"));
+      return;
+    }
+    const tool = isOnlineTool(onlineOptions.mode) ? onlineOptions.mode : null;
+    const asShell = tool !== null && script.statements.some((s) => s.alter);
+    // Later exports of the session get numbered names instead of overwriting
+    // the first one
+    scriptExports++;
+    const sqlOutput = options.sqlOutput
+      ? path.parse(path.resolve(process.cwd(), options.sqlOutput))
+      : null;
+    const filePath = !sqlOutput
+      ? getDefaultScriptPath(action, asShell ? "sh" : "sql")
+      : scriptExports === 1
+        ? path.format(sqlOutput)
+        : path.join(
+            sqlOutput.dir,
+            `${sqlOutput.name}-${scriptExports}${sqlOutput.ext}`,
+          );
+    const context: ScriptContext = {
+      host: config.host,
+      port: config.port,
+      schemas: selectedSchemas,
+      scannedAt,
+      action,
+    };
+    if (tool && asShell) {
+      writeOnlineToolScript(filePath, script, context, config.user, tool);
+      console.log(
+        chalk.magenta(
+          `\n📝 Wrote ${tool} commands for ${script.statements.length} statement(s) to ${filePath}; run it to apply the change\n`,
+        ),
+      );
+      return;
+    }
+    writeSqlScript(filePath, script, context);
+    console.log(
+      chalk.magenta(
+        `\n📝 Wrote ${script.statements.length} statement(s) to ${filePath}\n`,
+      ),
+    );
+  };
 
   if (cache) {
     console.log(
@@ -1234,55 +7875,120 @@ async function main(): Promise<void> {
     console.log(chalk.gray(`   Columns: ${cache.columns.length}\n`));
 
     columns = cache.columns;
+    fingerprints = cache.fingerprints ?? [];
     selectedSchemas = cache.schemas;
+    scannedAt = cache.timestamp;
+  }
+
+  if (dryRun) {
+    console.log(
+      chalk.magenta("📝 Dry run: statements will be exported, not executed\n"),
+    );
+  }
+  if (isOnlineTool(onlineOptions.mode)) {
+    console.log(
+      chalk.magenta(
+        `🛠  --online ${onlineOptions.mode}: ALTER actions are exported as ${onlineOptions.mode} commands\n`,
+      ),
+    );
   }
 
   let running = true;
 
   while (running) {
+    // The exit code reports on the last action only, so a failed check
+    // earlier in an interactive session doesn't fail its exit
+    exitCode = 0;
+
     // Get action from CLI or prompt
     let action: Action;
     if (options.action) {
       action = options.action as Action;
       options.action = undefined; // Clear so we prompt next time
+      if (exitAfter) {
+        running = false;
+      }
     } else {
       displaySummary(columns, selectedSchemas);
-      action = await selectAction(columns);
+      action = await selectAction(
+        columns,
+        dryRun,
+        await loadTableAccess(knex, columns),
+      );
     }
 
     switch (action) {
       case "scan": {
         selectedSchemas = await selectSchemas(knex);
-        columns = await scanSchemas(knex, selectedSchemas);
-        saveCache(config, selectedSchemas, columns);
-        console.log(chalk.gray(`\n📦 Cached scan results to ${CACHE_FILE}\n`));
+        await preflightPrivileges(knex, selectedSchemas);
+        // Caches from before fingerprints were stored get a full scan
+        const previous =
+          options.fullScan || fingerprints.length === 0
+            ? null
+            : { columns, fingerprints };
+        ({ columns, fingerprints } = await scanSchemas(
+          knex,
+          selectedSchemas,
+          scanOptions,
+          previous,
+        ));
+        scannedAt = saveCache(
+          options.cache,
+          config,
+          selectedSchemas,
+          columns,
+          fingerprints,
+        );
+        if (options.cache) {
+          console.log(
+            chalk.gray(
+              `\n📦 Cached scan results to ${CACHE_FILE} and ${HISTORY_DIR}/\n`,
+            ),
+          );
+        }
         break;
       }
 
       case "report":
         if (columns.length === 0) {
+          recordActionFailure();
           console.log(chalk.yellow("\nNo scan data. Please scan first.\n"));
-        } else {
+        } else if (reportFormat === "table") {
           displayResults(columns);
+        } else {
+          const report = formatReport(reportFormat, columns, {
+            host: config.host,
+            port: config.port,
+            schemas: selectedSchemas,
+            scannedAt,
+          });
+          if (options.output) {
+            const filePath = path.resolve(process.cwd(), options.output);
+            fs.writeFileSync(filePath, report, "utf-8");
+            console.log(
+              chalk.gray(`\n📄 Wrote ${reportFormat} report to ${filePath}\n`),
+            );
+          } else {
+            process.stdout.write(report);
+          }
         }
         break;
 
       case "fix_nulls": {
         if (columns.length === 0) {
+          recordActionFailure();
           console.log(chalk.yellow("\nNo scan data. Please scan first.\n"));
           break;
         }
-        const fixable = columns.filter(
-          (c) => c.badRowCount > 0 && c.IS_NULLABLE === "YES",
-        );
+        const fixable = columns.filter(mayHaveBadRows);
         if (fixable.length === 0) {
           console.log(chalk.yellow("\nNo fixable columns found.\n"));
           break;
         }
         const selected = await selectTablesGrouped(
           columns,
-          (c) => c.badRowCount > 0 && c.IS_NULLABLE === "YES",
-          "Select tables with fixable zero dates:",
+          mayHaveBadRows,
+          "Select tables with zero dates to fix:",
           (cols) =>
             `(${cols.reduce((sum, c) => sum + c.badRowCount, 0)} bad rows in ${cols.length} columns)`,
         );
@@ -1290,21 +7996,49 @@ async function main(): Promise<void> {
           console.log(chalk.yellow("Cancelled.\n"));
           break;
         }
-        const affected = await executeNullFixes(knex, columns, selected);
-        if (affected.length > 0) {
+        const script = createActionScript(action);
+        const affected = await executeNullFixes(
+          knex,
+          columns,
+          selected,
+          script,
+          {
+            backup:
+              !script && options.backup !== false ? createBackup(config) : null,
+            batch: {
+              size: options.batchSize,
+              sleepMs: options.batchSleep,
+            },
+            progress: script ? null : loadFixProgress(config),
+            throttle,
+            replaceRules: options.replace,
+            journal: script ? null : createRunJournal(config, action),
+            costSort,
+          },
+        );
+        if (script) {
+          exportScript(action, script);
+        } else if (affected.length > 0) {
           columns = await rescanColumns(knex, columns, affected);
-          saveCache(config, selectedSchemas, columns);
+          scannedAt = saveCache(
+            options.cache,
+            config,
+            selectedSchemas,
+            columns,
+            fingerprints,
+          );
         }
         break;
       }
 
       case "allow_nulls": {
         if (columns.length === 0) {
+          recordActionFailure();
           console.log(chalk.yellow("\nNo scan data. Please scan first.\n"));
           break;
         }
         const unfixable = columns.filter(
-          (c) => c.badRowCount > 0 && c.IS_NULLABLE === "NO",
+          (c) => mayHaveBadRows(c) && c.IS_NULLABLE === "NO",
         );
         if (unfixable.length === 0) {
           console.log(chalk.green("\n✓ No unfixable columns!\n"));
@@ -1312,7 +8046,7 @@ async function main(): Promise<void> {
         }
         const selected = await selectTablesGrouped(
           columns,
-          (c) => c.badRowCount > 0 && c.IS_NULLABLE === "NO",
+          (c) => mayHaveBadRows(c) && c.IS_NULLABLE === "NO",
           "Select tables to allow NULL (currently NOT NULLABLE with bad data):",
           (cols) =>
             `(${cols.reduce((sum, c) => sum + c.badRowCount, 0)} bad rows in ${cols.length} columns)`,
@@ -1321,16 +8055,33 @@ async function main(): Promise<void> {
           console.log(chalk.yellow("Cancelled.\n"));
           break;
         }
-        const affected = await executeAllowNulls(knex, columns, selected);
-        if (affected.length > 0) {
+        const script = createActionScript(action);
+        const affected = await executeAllowNulls(
+          knex,
+          columns,
+          selected,
+          script,
+          script ? null : createRunJournal(config, action),
+          costSort,
+        );
+        if (script) {
+          exportScript(action, script);
+        } else if (affected.length > 0) {
           columns = await rescanColumns(knex, columns, affected);
-          saveCache(config, selectedSchemas, columns);
+          scannedAt = saveCache(
+            options.cache,
+            config,
+            selectedSchemas,
+            columns,
+            fingerprints,
+          );
         }
         break;
       }
 
       case "convert_timestamps": {
         if (columns.length === 0) {
+          recordActionFailure();
           console.log(chalk.yellow("\nNo scan data. Please scan first.\n"));
           break;
         }
@@ -1356,14 +8107,28 @@ async function main(): Promise<void> {
           console.log(chalk.yellow("Cancelled.\n"));
           break;
         }
+        const script = createActionScript(action);
         const affected = await executeTimestampConversions(
           knex,
           columns,
           selected,
+          script,
+          script ? null : createRunJournal(config, action),
+          throttle,
+          options.timeZone,
+          costSort,
         );
-        if (affected.length > 0) {
+        if (script) {
+          exportScript(action, script);
+        } else if (affected.length > 0) {
           columns = await rescanColumns(knex, columns, affected);
-          saveCache(config, selectedSchemas, columns);
+          scannedAt = saveCache(
+            options.cache,
+            config,
+            selectedSchemas,
+            columns,
+            fingerprints,
+          );
         }
         break;
       }
@@ -1375,10 +8140,298 @@ async function main(): Promise<void> {
           );
           break;
         }
-        await executeSyncDefaults(knex, selectedSchemas);
+        const script = createActionScript(action);
+        await executeSyncDefaults(
+          knex,
+          selectedSchemas,
+          script,
+          script ? null : createRunJournal(config, action),
+        );
+        if (script) {
+          exportScript(action, script);
+        }
+        break;
+      }
+
+      case "undo": {
+        const script = createActionScript(action);
+        const restored = await executeUndo(
+          knex,
+          config,
+          typeof options.backup === "string" ? options.backup : undefined,
+          script,
+          { size: options.batchSize, sleepMs: options.batchSleep },
+        );
+        if (script) {
+          exportScript(action, script);
+        } else if (restored.length > 0) {
+          const restoredKeys = new Set(
+            restored.map((e) => `${e.schema}.${e.table}.${e.column}`),
+          );
+          columns = await rescanColumns(
+            knex,
+            columns,
+            columns.filter((c) =>
+              restoredKeys.has(
+                `${c.TABLE_SCHEMA}.${c.TABLE_NAME}.${c.COLUMN_NAME}`,
+              ),
+            ),
+          );
+          scannedAt = saveCache(
+            options.cache,
+            config,
+            selectedSchemas,
+            columns,
+            fingerprints,
+          );
+        }
+        break;
+      }
+
+      case "rollback": {
+        const script = createActionScript(action);
+        const restored = await executeRollback(
+          knex,
+          config,
+          options.run,
+          script,
+        );
+        if (script) {
+          exportScript(action, script);
+        } else if (restored.length > 0) {
+          const restoredKeys = new Set(
+            restored.map((s) => `${s.schema}.${s.table}.${s.column}`),
+          );
+          columns = await rescanColumns(
+            knex,
+            columns,
+            columns.filter((c) =>
+              restoredKeys.has(
+                `${c.TABLE_SCHEMA}.${c.TABLE_NAME}.${c.COLUMN_NAME}`,
+              ),
+            ),
+          );
+          scannedAt = saveCache(
+            options.cache,
+            config,
+            selectedSchemas,
+            columns,
+            fingerprints,
+          );
+        }
+        break;
+      }
+
+      case "check": {
+        if (columns.length === 0) {
+          selectedSchemas = await selectSchemas(knex);
+          ({ columns, fingerprints } = await scanSchemas(
+            knex,
+            selectedSchemas,
+            scanOptions,
+          ));
+          scannedAt = saveCache(
+            options.cache,
+            config,
+            selectedSchemas,
+            columns,
+            fingerprints,
+          );
+        } else if (scannedAt) {
+          console.log(
+            chalk.gray(
+              `\n📦 Checking the scan from ${formatCacheAge(scannedAt)}. Run scan first, or pass --no-cache, to check current data.`,
+            ),
+          );
+        }
+        exitCode = runCheck(
+          columns,
+          {
+            badRows: options.maxBadRows,
+            unfixable: options.maxUnfixable,
+            timestamps: options.maxTimestamps,
+            scanErrors: options.maxScanErrors,
+            unverified: options.maxUnverified,
+          },
+          options.allowlist ? loadAllowlist(options.allowlist) : [],
+        );
+        break;
+      }
+
+      case "plan": {
+        if (columns.length === 0) {
+          recordActionFailure();
+          console.log(chalk.yellow("\nNo scan data. Please scan first.\n"));
+          break;
+        }
+        const planPath = path.resolve(
+          process.cwd(),
+          options.plan ?? DEFAULT_PLAN_FILE,
+        );
+        const plan = buildFixPlan(columns, config, scannedAt);
+        writeFixPlan(planPath, plan);
+        console.log(
+          chalk.green(
+            `\n✓ Plan for ${plan.columns.length} column(s) written to ${planPath}`,
+          ),
+        );
+        console.log(
+          chalk.gray(
+            `  Edit each strategy (null, replace, allow_null, convert, skip), then run the apply action.\n`,
+          ),
+        );
+        break;
+      }
+
+      case "apply": {
+        const script = createActionScript(action);
+        const affected = await executeApply(
+          knex,
+          config,
+          path.resolve(process.cwd(), options.plan ?? DEFAULT_PLAN_FILE),
+          script,
+          {
+            backup:
+              !script && options.backup !== false ? createBackup(config) : null,
+            batch: {
+              size: options.batchSize,
+              sleepMs: options.batchSleep,
+            },
+            progress: script ? null : loadFixProgress(config),
+            throttle,
+            replaceRules: [],
+            journal: null,
+            costSort,
+          },
+        );
+        if (script) {
+          exportScript(action, script);
+        } else if (affected.length > 0) {
+          const affectedKeys = new Set(
+            affected.map(
+              (c) => `${c.TABLE_SCHEMA}.${c.TABLE_NAME}.${c.COLUMN_NAME}`,
+            ),
+          );
+          columns = await rescanColumns(
+            knex,
+            columns,
+            columns.filter((c) =>
+              affectedKeys.has(
+                `${c.TABLE_SCHEMA}.${c.TABLE_NAME}.${c.COLUMN_NAME}`,
+              ),
+            ),
+          );
+          scannedAt = saveCache(
+            options.cache,
+            config,
+            selectedSchemas,
+            columns,
+            fingerprints,
+          );
+        }
+        break;
+      }
+
+      case "resume": {
+        const script = createActionScript(action);
+        const affected = await executeResume(
+          knex,
+          config,
+          options.run,
+          script,
+          {
+            backup:
+              !script && options.backup !== false ? createBackup(config) : null,
+            batch: {
+              size: options.batchSize,
+              sleepMs: options.batchSleep,
+            },
+            progress: script ? null : loadFixProgress(config),
+            throttle,
+            replaceRules: [],
+            journal: null,
+            costSort,
+          },
+        );
+        if (script) {
+          exportScript(action, script);
+        } else if (affected.length > 0) {
+          const affectedKeys = new Set(
+            affected.map(
+              (c) => `${c.TABLE_SCHEMA}.${c.TABLE_NAME}.${c.COLUMN_NAME}`,
+            ),
+          );
+          columns = await rescanColumns(
+            knex,
+            columns,
+            columns.filter((c) =>
+              affectedKeys.has(
+                `${c.TABLE_SCHEMA}.${c.TABLE_NAME}.${c.COLUMN_NAME}`,
+              ),
+            ),
+          );
+          scannedAt = saveCache(
+            options.cache,
+            config,
+            selectedSchemas,
+            columns,
+            fingerprints,
+          );
+        }
+        break;
+      }
+
+      case "audit": {
+        if (!["table", "json"].includes(reportFormat)) {
+          recordActionFailure();
+          console.log(
+            chalk.red(`\n${action} only supports --format table or json.\n`),
+          );
+          break;
+        }
+        const audit = await auditServer(knex, columns);
+        if (reportFormat === "json") {
+          const json = JSON.stringify(audit, null, 2) + "\n";
+          if (options.output) {
+            const filePath = path.resolve(process.cwd(), options.output);
+            fs.writeFileSync(filePath, json, "utf-8");
+            console.log(chalk.gray(`\n📄 Wrote audit to ${filePath}\n`));
+          } else {
+            process.stdout.write(json);
+          }
+        } else {
+          displayAudit(audit, columns.length > 0);
+        }
+        break;
+      }
+
+      case "diff": {
+        const diff = await selectScanDiff(config, options.from, options.to);
+        if (!diff) break;
+        if (reportFormat === "json") {
+          const json = JSON.stringify(diff, null, 2) + "\n";
+          if (options.output) {
+            const filePath = path.resolve(process.cwd(), options.output);
+            fs.writeFileSync(filePath, json, "utf-8");
+            console.log(chalk.gray(`\n📄 Wrote scan diff to ${filePath}\n`));
+          } else {
+            process.stdout.write(json);
+          }
+        } else {
+          displayScanDiff(diff);
+        }
         break;
       }
 
+      case "toggle_dry_run":
+        dryRun = !dryRun;
+        console.log(
+          dryRun
+            ? chalk.magenta("\n📝 Dry run ON: statements will be exported\n")
+            : chalk.yellow("\n⚡ Dry run OFF: statements will be executed\n"),
+        );
+        break;
+
       case "exit":
         running = false;
         break;
@@ -1386,11 +8439,45 @@ async function main(): Promise<void> {
   }
 
   console.log(chalk.gray("\nGoodbye! 👋\n"));
+  await destroyThrottle(throttle);
   await knex.destroy();
-  process.exit(0);
+  process.exit(runStatus.failed ? 1 : exitCode);
 }
 
-main().catch((err) => {
-  console.error(chalk.red("Fatal error:"), err);
-  process.exit(1);
-});
+// The pure helpers are exported for the unit tests, which import this file
+// without running the tool
+export {
+  badRowCountSelects,
+  diffScans,
+  estimateFromSample,
+  formatReport,
+  matchesGrantSchema,
+  parseColumnDefinition,
+  parseGrant,
+  planIncrementalScan,
+  readBadRowCounts,
+  renderColumnDefinition,
+  splitGrantPrivileges,
+  validateReplacementLiteral,
+  wilsonInterval,
+  zeroDateRange,
+};
+export type {
+  ColumnInfo,
+  ReportContext,
+  ScanHistoryEntry,
+  ScanResult,
+  TableFingerprint,
+  TableScan,
+};
+
+if (require.main === module) {
+  main().catch((err) => {
+    if (err instanceof InputRequiredError) {
+      console.error(chalk.red(`\n✗ ${err.message}\n`));
+    } else {
+      console.error(chalk.red("Fatal error:"), err);
+    }
+    process.exit(1);
+  });
+}